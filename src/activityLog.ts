@@ -0,0 +1,224 @@
+import { db, type ActivityEntry, type Bookmark, type ProcessingCheckpoint } from './db';
+import { getFolderPath, moveBookmarkToFolder } from './folders';
+import { applyArchivedState } from './archiveFolder';
+import { whileCreatingBookmarks } from './ownBookmarks';
+
+/// <reference types="chrome"/>
+
+// Who or what made a change
+export type ActivityOrigin = Pick<ActivityEntry, 'cause' | 'reason' | 'jobType' | 'runId'>;
+
+export const USER_ACTION: ActivityOrigin = { cause: 'user' };
+
+const OTHER_BOOKMARKS_ID = '2';
+const RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+
+/**
+ * Origin for changes made by a job run; all changes of one run share a runId
+ */
+export function jobOrigin(checkpoint: ProcessingCheckpoint, reason?: string): ActivityOrigin {
+  return {
+    cause: 'job',
+    reason,
+    jobType: checkpoint.jobType,
+    runId: `${checkpoint.jobType}-${checkpoint.startTime}`
+  };
+}
+
+/**
+ * Append a bookmark change to the activity log
+ * Pass no `before` for a created bookmark and no `after` for a deleted one
+ */
+export async function logActivity(
+  action: Exclude<ActivityEntry['action'], 'undo'>,
+  before: Bookmark | undefined,
+  after: Bookmark | undefined,
+  origin: ActivityOrigin
+): Promise<void> {
+  const bookmark = (after ?? before)!;
+  await db.activityLog.add({
+    timestamp: Date.now(),
+    action,
+    bookmarkId: bookmark.id,
+    title: bookmark.title,
+    before,
+    after,
+    ...origin
+  });
+}
+
+/**
+ * Get the most recent activity, with the ids of entries that have been undone
+ */
+export async function getRecentActivity(limit: number = 200): Promise<{ entries: ActivityEntry[]; undoneIds: number[] }> {
+  const entries = await db.activityLog.orderBy('timestamp').reverse().limit(limit).toArray();
+  const undoEntries = await db.activityLog.where('undoes').above(0).toArray();
+  return { entries, undoneIds: undoEntries.map(entry => entry.undoes!) };
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Fields an entry changed, as [field, value before] pairs
+ */
+function changedFields(before: Bookmark, after: Bookmark): Array<[keyof Bookmark, unknown]> {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof Bookmark>);
+  return Array.from(keys)
+    .filter(key => !isSame(before[key], after[key]))
+    .map(key => [key, before[key]]);
+}
+
+async function folderExists(folderId: string | undefined): Promise<boolean> {
+  if (!folderId) return false;
+  try {
+    const [node] = await chrome.bookmarks.get(folderId);
+    return !!node && !node.url;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Undo a single entry, in Chrome as well as in SmartMarksDB
+ * - created bookmarks are removed
+ * - deleted bookmarks are created again (in their old folder if it still exists)
+ * - archiving and restoring are reversed, moving in and out of the archive folder
+ * - other changes are reverted field by field, skipping fields changed again since
+ * The undo itself is appended to the log; entries are never modified
+ */
+export async function undoActivity(entryId: number): Promise<void> {
+  const entry = await db.activityLog.get(entryId);
+  if (!entry) {
+    throw new Error(`Activity ${entryId} not found`);
+  }
+  if (entry.action === 'undo') {
+    throw new Error('An undo cannot be undone');
+  }
+  if (await db.activityLog.where('undoes').equals(entryId).count() > 0) {
+    throw new Error(`"${entry.title}" was already undone`);
+  }
+
+  let before: Bookmark | undefined;
+  let after: Bookmark | undefined;
+
+  if (!entry.before) {
+    // Created - remove it again
+    before = await db.bookmarks.get(entry.bookmarkId);
+    try {
+      await chrome.bookmarks.remove(entry.bookmarkId);
+    } catch {
+      // Already removed in Chrome
+    }
+    await db.bookmarks.delete(entry.bookmarkId);
+  } else if (!entry.after) {
+    // Deleted - create it again; Chrome assigns a new id
+    const deleted = entry.before;
+    const parentId = await folderExists(deleted.parentId) ? deleted.parentId! : OTHER_BOOKMARKS_ID;
+    after = await whileCreatingBookmarks([deleted.url], async () => {
+      const node = await chrome.bookmarks.create({ parentId, title: deleted.title, url: deleted.url });
+      const recreated: Bookmark = {
+        ...deleted,
+        id: node.id,
+        parentId,
+        index: node.index,
+        folderPath: await getFolderPath(parentId)
+      };
+      await db.bookmarks.add(recreated);
+      return recreated;
+    });
+  } else {
+    before = await db.bookmarks.get(entry.bookmarkId);
+    if (!before) {
+      throw new Error(`"${entry.title}" no longer exists`);
+    }
+
+    if (entry.action === 'archive' || entry.action === 'restore') {
+      if (before.isArchived !== entry.after.isArchived) {
+        throw new Error(`"${entry.title}" was ${before.isArchived ? 'archived' : 'restored'} again since`);
+      }
+      await applyArchivedState(before, !before.isArchived);
+    } else {
+      await revertFields(before, entry.before, entry.after, entry.title);
+    }
+    after = await db.bookmarks.get(before.id);
+  }
+
+  await db.activityLog.add({
+    timestamp: Date.now(),
+    action: 'undo',
+    bookmarkId: after?.id ?? entry.bookmarkId,
+    title: entry.title,
+    before,
+    after,
+    cause: 'user',
+    undoes: entryId
+  });
+}
+
+/**
+ * Revert the fields an entry changed, skipping fields changed again since
+ */
+async function revertFields(current: Bookmark, before: Bookmark, after: Bookmark, title: string): Promise<void> {
+  const revert: Partial<Bookmark> = {};
+  for (const [key, value] of changedFields(before, after)) {
+    if (isSame(current[key], after[key])) {
+      Object.assign(revert, { [key]: value });
+    }
+  }
+  if (Object.keys(revert).length === 0) {
+    throw new Error(`"${title}" has changed since, so there is nothing left to undo`);
+  }
+  if (revert.category && !(await db.categories.get(revert.category))) {
+    throw new Error(`"${title}" can't go back to a category that has been deleted`);
+  }
+
+  // Folder fields are set by the move below
+  const { parentId } = revert;
+  delete revert.parentId;
+  delete revert.index;
+  delete revert.folderPath;
+
+  await db.bookmarks.update(current.id, revert);
+  if (revert.title !== undefined || revert.url !== undefined) {
+    await chrome.bookmarks.update(current.id, {
+      title: revert.title ?? current.title,
+      url: revert.url ?? current.url
+    });
+  }
+  if (parentId && await folderExists(parentId)) {
+    await moveBookmarkToFolder(current.id, parentId);
+  }
+}
+
+/**
+ * Undo every change of a job run, newest first
+ * Changes that can't be undone (e.g. edited since) are skipped
+ */
+export async function undoJobRun(runId: string): Promise<{ undone: number; skipped: number }> {
+  const entries = await db.activityLog.where('runId').equals(runId).reverse().sortBy('id');
+  const undone = new Set(
+    (await db.activityLog.where('undoes').anyOf(entries.map(e => e.id!)).toArray()).map(e => e.undoes)
+  );
+
+  let count = 0;
+  let skipped = 0;
+  for (const entry of entries) {
+    if (undone.has(entry.id)) continue;
+    try {
+      await undoActivity(entry.id!);
+      count++;
+    } catch (error) {
+      console.warn(`Could not undo activity ${entry.id}:`, error);
+      skipped++;
+    }
+  }
+
+  return { undone: count, skipped };
+}
+
+/**
+ * Drop activity older than the retention period
+ */
+export async function cleanupOldActivity(): Promise<void> {
+  await db.activityLog.where('timestamp').below(Date.now() - RETENTION_MS).delete();
+}
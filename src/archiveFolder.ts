@@ -0,0 +1,128 @@
+import { db, type Bookmark } from './db';
+import { refreshFolderChildren } from './folders';
+
+/// <reference types="chrome"/>
+
+const OTHER_BOOKMARKS_ID = '2';
+const ARCHIVE_FOLDER_TITLE = 'SmartMarks Archive';
+const ARCHIVE_FOLDER_KEY = 'smartmarks_archive_folder';
+
+async function isFolder(folderId: string | undefined): Promise<boolean> {
+  if (!folderId) return false;
+  try {
+    const [node] = await chrome.bookmarks.get(folderId);
+    return !!node && !node.url;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the "SmartMarks Archive" folder in Other bookmarks
+ * The folder id is remembered, so renaming the folder doesn't lose it
+ */
+export async function findArchiveFolderId(): Promise<string | undefined> {
+  const stored = await chrome.storage.local.get(ARCHIVE_FOLDER_KEY);
+  const storedId = stored[ARCHIVE_FOLDER_KEY] as string | undefined;
+  if (await isFolder(storedId)) {
+    return storedId;
+  }
+
+  const children = await chrome.bookmarks.getChildren(OTHER_BOOKMARKS_ID);
+  const folder = children.find(node => !node.url && node.title === ARCHIVE_FOLDER_TITLE);
+  if (folder) {
+    await chrome.storage.local.set({ [ARCHIVE_FOLDER_KEY]: folder.id });
+  }
+  return folder?.id;
+}
+
+async function getOrCreateArchiveFolderId(): Promise<string> {
+  const existing = await findArchiveFolderId();
+  if (existing) return existing;
+
+  const folder = await chrome.bookmarks.create({ parentId: OTHER_BOOKMARKS_ID, title: ARCHIVE_FOLDER_TITLE });
+  await chrome.storage.local.set({ [ARCHIVE_FOLDER_KEY]: folder.id });
+  return folder.id;
+}
+
+/**
+ * Archive or restore a single bookmark, without logging it
+ * With Settings.archiveToFolder the Chrome bookmark is moved into the archive
+ * folder and its old place is kept in archivedFrom; restoring puts it back there.
+ * The row is updated before the Chrome move, so the onMoved listener sees a
+ * move that matches the archived state and leaves it alone.
+ */
+export async function applyArchivedState(bookmark: Bookmark, isArchived: boolean): Promise<void> {
+  if (isArchived) {
+    const settings = await db.settings.get('local');
+    if (!settings?.archiveToFolder || bookmark.parentId === undefined) {
+      await db.bookmarks.update(bookmark.id, { isArchived: true });
+      return;
+    }
+
+    const archiveFolderId = await getOrCreateArchiveFolderId();
+    if (bookmark.parentId === archiveFolderId) {
+      await db.bookmarks.update(bookmark.id, { isArchived: true });
+      return;
+    }
+
+    await db.bookmarks.update(bookmark.id, {
+      isArchived: true,
+      archivedFrom: { parentId: bookmark.parentId, index: bookmark.index ?? 0 }
+    });
+    try {
+      await chrome.bookmarks.move(bookmark.id, { parentId: archiveFolderId });
+    } catch (error) {
+      await db.bookmarks.update(bookmark.id, { isArchived: false, archivedFrom: undefined });
+      throw error;
+    }
+    await refreshFolderChildren(archiveFolderId);
+    return;
+  }
+
+  // Archived in place, or already moved out of the archive folder
+  const archivedFrom = bookmark.archivedFrom;
+  if (!archivedFrom || bookmark.parentId !== await findArchiveFolderId()) {
+    await db.bookmarks.update(bookmark.id, { isArchived: false, archivedFrom: undefined });
+    return;
+  }
+
+  // The old folder may have been deleted since; fall back to Other bookmarks
+  const parentId = await isFolder(archivedFrom.parentId) ? archivedFrom.parentId : OTHER_BOOKMARKS_ID;
+  const siblings = await chrome.bookmarks.getChildren(parentId);
+  const index = parentId === archivedFrom.parentId ? Math.min(archivedFrom.index, siblings.length) : undefined;
+
+  await db.bookmarks.update(bookmark.id, { isArchived: false, archivedFrom: undefined });
+  try {
+    await chrome.bookmarks.move(bookmark.id, { parentId, index });
+  } catch (error) {
+    await db.bookmarks.update(bookmark.id, { isArchived: true, archivedFrom });
+    throw error;
+  }
+  await refreshFolderChildren(parentId);
+}
+
+/**
+ * Archive state a bookmark should get after moving between folders outside SmartMarks
+ * Dragging a bookmark into the archive folder archives it, dragging an archived
+ * bookmark out restores it. Returns undefined when the move changes nothing.
+ */
+export function archiveChangesForMove(
+  bookmark: Bookmark,
+  oldParentId: string | undefined,
+  newParentId: string | undefined,
+  archiveFolderId: string | undefined
+): Partial<Bookmark> | undefined {
+  if (!archiveFolderId || oldParentId === newParentId) return undefined;
+
+  if (newParentId === archiveFolderId && !bookmark.isArchived) {
+    return {
+      isArchived: true,
+      archivedFrom: oldParentId !== undefined ? { parentId: oldParentId, index: bookmark.index ?? 0 } : undefined
+    };
+  }
+  if (oldParentId === archiveFolderId && bookmark.isArchived && bookmark.archivedFrom) {
+    return { isArchived: false, archivedFrom: undefined };
+  }
+  return undefined;
+}
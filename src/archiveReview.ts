@@ -0,0 +1,123 @@
+import { db, type ArchiveProposal, type Bookmark } from './db';
+import { setBookmarksArchived } from './bookmarks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A bookmark the archive job picked, and why
+export interface ArchivePick {
+  bookmark: Bookmark;
+  reason: string;
+  duplicateOf?: string;
+}
+
+export interface PendingProposal extends ArchiveProposal {
+  bookmark: Bookmark;
+}
+
+/**
+ * Whether a pending proposal no longer applies
+ * (bookmark gone or archived, or visited since it was proposed as inactive)
+ */
+function isStale(proposal: ArchiveProposal, bookmark: Bookmark | undefined): boolean {
+  if (!bookmark || bookmark.isArchived) return true;
+  return !proposal.duplicateOf && (bookmark.lastVisited ?? 0) > proposal.proposedAt;
+}
+
+/**
+ * Bookmarks the archive job must leave alone
+ * Excluded and snoozed bookmarks always; pending ones too in review mode, so they
+ * aren't proposed twice. Expired snoozes and stale proposals are dropped here.
+ */
+export async function getArchiveSkipIds(includePending: boolean): Promise<Set<string>> {
+  const now = Date.now();
+  const proposals = await db.archiveProposals.toArray();
+  const bookmarks = await db.bookmarks.bulkGet(proposals.map(p => p.bookmarkId));
+
+  const skip = new Set<string>();
+  const expired: string[] = [];
+
+  proposals.forEach((proposal, i) => {
+    if (proposal.status === 'excluded') {
+      skip.add(proposal.bookmarkId);
+    } else if (proposal.status === 'snoozed') {
+      if ((proposal.snoozedUntil ?? 0) > now) {
+        skip.add(proposal.bookmarkId);
+      } else {
+        expired.push(proposal.bookmarkId);
+      }
+    } else if (isStale(proposal, bookmarks[i])) {
+      expired.push(proposal.bookmarkId);
+    } else if (includePending) {
+      skip.add(proposal.bookmarkId);
+    }
+  });
+
+  if (expired.length > 0) {
+    await db.archiveProposals.bulkDelete(expired);
+  }
+  return skip;
+}
+
+/**
+ * Store picks as pending proposals instead of archiving them
+ */
+export async function proposeArchive(picks: ArchivePick[]): Promise<void> {
+  const proposedAt = Date.now();
+  await db.archiveProposals.bulkPut(picks.map(({ bookmark, reason, duplicateOf }) => ({
+    bookmarkId: bookmark.id,
+    reason,
+    duplicateOf,
+    proposedAt,
+    status: 'pending' as const
+  })));
+}
+
+/**
+ * Pending proposals with their bookmarks, for the Cleanup tab
+ */
+export async function getPendingProposals(): Promise<PendingProposal[]> {
+  const proposals = await db.archiveProposals.where('status').equals('pending').toArray();
+  const bookmarks = await db.bookmarks.bulkGet(proposals.map(p => p.bookmarkId));
+
+  return proposals
+    .map((proposal, i) => ({ ...proposal, bookmark: bookmarks[i]! }))
+    .filter(proposal => !isStale(proposal, proposal.bookmark))
+    .sort((a, b) => a.bookmark.title.localeCompare(b.bookmark.title));
+}
+
+/**
+ * Archive the proposed bookmarks
+ * Returns the number of bookmarks archived
+ */
+export async function approveProposals(bookmarkIds: string[]): Promise<number> {
+  const proposals = (await db.archiveProposals.bulkGet(bookmarkIds))
+    .filter((p): p is ArchiveProposal => p?.status === 'pending');
+
+  let archived = 0;
+  for (const proposal of proposals) {
+    archived += await setBookmarksArchived([proposal.bookmarkId], true, {
+      cause: 'user',
+      reason: `Approved: ${proposal.reason}`
+    });
+    await db.archiveProposals.delete(proposal.bookmarkId);
+  }
+  return archived;
+}
+
+/**
+ * Keep the proposed bookmarks and never propose them again
+ */
+export async function excludeProposals(bookmarkIds: string[]): Promise<number> {
+  return db.archiveProposals
+    .where('bookmarkId').anyOf(bookmarkIds)
+    .modify({ status: 'excluded' });
+}
+
+/**
+ * Keep the proposed bookmarks for now; they may be proposed again after the given days
+ */
+export async function snoozeProposals(bookmarkIds: string[], days: number): Promise<number> {
+  return db.archiveProposals
+    .where('bookmarkId').anyOf(bookmarkIds)
+    .modify({ status: 'snoozed', snoozedUntil: Date.now() + days * DAY_MS });
+}
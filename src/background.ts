@@ -1,30 +1,101 @@
-import { db, type Bookmark } from './db';
-import { categorizeBookmark, generateContentHash, findDuplicates } from './categorization';
-import { flattenBookmarkTree, hasPermission } from './utils';
-import { extractMetadata } from './metadata';
+import { db, type Bookmark, type Settings } from './db';
+import { generateContentHash, findDuplicates, MIN_CONFIDENCE } from './categorization';
+import {
+  assignCategory,
+  createCategoryAssigner,
+  categorizationReason,
+  createCategory,
+  updateCategory,
+  mergeCategories,
+  deleteCategory,
+  loadCategoryKeywords
+} from './categories';
+import { hasPermission, hasHostAccess, bookmarkIdsIn } from './utils';
+import { metadataNextChunk, refreshBookmarkMetadata } from './metadataBackfill';
+import { linkCheckNextChunk, applyLinkRedirects } from './linkChecker';
 import { loadCheckpoint, saveCheckpoint, clearCheckpoint, cleanupOldCheckpoints } from './checkpoints';
-import { analyzeExistingHistory, hasAnalyzedHistory, getAnalysisStats } from './historyAnalyzer';
-import { trackCandidateUrl, recalculateCandidateWindowVisits, getCandidateStats, getTopCandidates } from './candidateTracker';
+import { registerJob, runJob, handleJobAlarm, resumeJobs } from './jobRunner';
+import { JOB_MONITOR_PORT, connectJobMonitor } from './jobMonitor';
+import { analyzeHistoryNextChunk, hasAnalyzedHistory, getAnalysisStats } from './historyAnalyzer';
+import { trackCandidateUrl, recalculateCandidatesNextChunk, getCandidateStats, getTopCandidates } from './candidateTracker';
 import { groupTabsByCategory, ungroupAllTabs, getTabGroupStats } from './tabGrouping';
 import { parsePreferences, saveRulesToDatabase, formatRulesForDisplay } from './naturalLanguageParser';
+import { reconcileBookmarks, getLastReconciliationReport } from './reconciliation';
+import { createBackup, restoreBackup } from './backup';
+import { isOwnBookmark } from './ownBookmarks';
+import { scheduleProcessingAlarms, isRealtimeProcessing } from './scheduler';
+import { exportNetscapeHtml, importNetscapeHtml } from './netscapeBookmarks';
+import { getFolderPath, refreshFolderChildren, refreshFolderSubtree } from './folders';
+import { addTagsToBookmarks, removeTagsFromBookmarks } from './tags';
+import {
+  updateBookmark,
+  deleteBookmarks,
+  setBookmarksArchived,
+  recordBookmarkVisit,
+  organizeIntoCategoryFolders,
+  forgetBookmarks
+} from './bookmarks';
+import { createRpcListener, type RpcHandlers } from './rpc';
+import { logActivity, jobOrigin, undoActivity, undoJobRun, cleanupOldActivity } from './activityLog';
+import { handleExternalMessage } from './externalApi';
+import { findArchiveFolderId, archiveChangesForMove } from './archiveFolder';
+import { registerDwellTracking, lastEngagedAt } from './visitDuration';
+import { extractDomain, findMatchingDomainPattern } from './domainMatching';
+import {
+  getArchiveSkipIds,
+  proposeArchive,
+  approveProposals,
+  excludeProposals,
+  snoozeProposals,
+  type ArchivePick
+} from './archiveReview';
+import {
+  beginImportSession,
+  endImportSession,
+  isImportInProgress,
+  recordImportedBookmark,
+  processImportedBookmarks
+} from './importSession';
+import { saveCategorizationRule, deleteCategorizationRule, resetDefaultRules } from './categorizationRules';
+import { applyCorrectionToDomain } from './learnedCategories';
+import { trainClassifier } from './classifier';
 
 /// <reference types="chrome"/>
 
+// v1.3.0: Chunked jobs, run through jobRunner so they survive worker restarts
+registerJob('categorize', categorizeNextChunk);
+registerJob('archive', archiveNextChunk);
+registerJob('metadata', metadataNextChunk);
+registerJob('historyAnalysis', analyzeHistoryNextChunk);
+registerJob('candidateRecalculation', recalculateCandidatesNextChunk);
+registerJob('import', processImportedBookmarks);
+registerJob('linkCheck', linkCheckNextChunk);
+
+// v1.3.0: Time spent on pages, for ranking, archiving and auto-bookmarking
+registerDwellTracking();
+
 // Initialize database on install
 chrome.runtime.onInstalled.addListener(async () => {
   console.log('SmartMarks installed');
   await db.initialize();
-  await syncBookmarksFromChrome();
+  await reconcileBookmarks();
 
   // Clean up old checkpoints
   await cleanupOldCheckpoints();
+  await cleanupOldActivity();
+
+  // Set up periodic tasks (v1.3.0: cadence follows Settings.updateFrequency)
+  await scheduleProcessingAlarms();
 
-  // Set up periodic tasks
-  chrome.alarms.create('categorize', { periodInMinutes: 15 });
-  chrome.alarms.create('archive', { periodInMinutes: 60 * 24 }); // Daily
+  // An update restarts the worker mid-job just like a browser restart
+  await resumeJobs();
 
-  // v1.2.0: Set up auto-bookmarking alarms
-  chrome.alarms.create('recalculateCandidates', { periodInMinutes: 60 }); // Hourly
+  // Backfill page details for bookmarks that predate this version
+  if (await hasHostAccess()) {
+    runJob('metadata').catch(err => {
+      console.error('Failed to start page details fetch:', err);
+    });
+  }
 
   // Set up optional history tracking if permission granted
   await setupHistoryTracking();
@@ -44,103 +115,140 @@ chrome.runtime.onInstalled.addListener(async () => {
 chrome.runtime.onStartup.addListener(async () => {
   console.log('SmartMarks service worker started');
 
-  // Check for incomplete categorization
-  const categorizationCheckpoint = await loadCheckpoint('categorize');
-  if (categorizationCheckpoint) {
-    console.log('Resuming incomplete categorization task');
-    await runCategorizationTask();
-  }
+  // Pick up bookmark changes made while the service worker was asleep
+  await reconcileBookmarks();
 
-  // Check for incomplete archiving
-  const archivingCheckpoint = await loadCheckpoint('archive');
-  if (archivingCheckpoint) {
-    console.log('Resuming incomplete archiving task');
-    await runArchivingTask();
-  }
+  // Alarms survive restarts, but may predate a settings change
+  await scheduleProcessingAlarms();
+
+  // v1.3.0: Resume every job that was interrupted, whatever its type
+  await resumeJobs();
 });
 
 // Listen to bookmark changes
 chrome.bookmarks.onCreated.addListener(async (id, bookmark) => {
+  // v1.3.0: Bookmarks SmartMarks creates itself (undo, restore, the API) are stored by their creator
+  if (isOwnBookmark(bookmark)) {
+    if (bookmark.parentId) {
+      await refreshFolderChildren(bookmark.parentId);
+    }
+    return;
+  }
+
+  // v1.3.0: During an import, hold back per-bookmark work for one batch job
+  if (await isImportInProgress()) {
+    if (bookmark.url) {
+      await handleImportedBookmark(id, bookmark);
+    }
+    return;
+  }
+
   if (bookmark.url) {
     await handleBookmarkAdded(id, bookmark);
   }
+  // Siblings after the new node shift down by one
+  if (bookmark.parentId) {
+    await refreshFolderChildren(bookmark.parentId);
+  }
 });
 
-chrome.bookmarks.onRemoved.addListener(async (id) => {
-  await db.bookmarks.delete(id);
+chrome.bookmarks.onRemoved.addListener(async (_id, removeInfo) => {
+  // Removing a folder removes every bookmark inside it
+  await forgetBookmarks(bookmarkIdsIn(removeInfo.node));
+  await refreshFolderChildren(removeInfo.parentId);
 });
 
 chrome.bookmarks.onChanged.addListener(async (id, changeInfo) => {
   const bookmark = await db.bookmarks.get(id);
   if (bookmark) {
+    const url = changeInfo.url || bookmark.url;
     await db.bookmarks.update(id, {
       title: changeInfo.title || bookmark.title,
-      url: changeInfo.url || bookmark.url
+      url,
+      metadata: {
+        ...bookmark.metadata,
+        contentHash: generateContentHash(url),
+        // v1.3.0: A new URL means new page details - let the metadata job fetch them
+        fetchedAt: url === bookmark.url ? bookmark.metadata.fetchedAt : undefined
+      },
+      linkHealth: url === bookmark.url ? bookmark.linkHealth : undefined
     });
+  } else if (!changeInfo.url) {
+    // A folder was renamed - every bookmark below it has a new folder path
+    await refreshFolderSubtree(id);
   }
 });
 
+chrome.bookmarks.onMoved.addListener(async (id, moveInfo) => {
+  // v1.3.0: Dragging into or out of the archive folder archives or restores.
+  // Checked before the refresh below, which overwrites the old index.
+  const bookmark = await db.bookmarks.get(id);
+  if (bookmark) {
+    const changes = archiveChangesForMove(bookmark, moveInfo.oldParentId, moveInfo.parentId, await findArchiveFolderId());
+    if (changes) {
+      await db.bookmarks.update(id, changes);
+      await logActivity(changes.isArchived ? 'archive' : 'restore', bookmark, { ...bookmark, ...changes }, {
+        cause: 'user',
+        reason: changes.isArchived ? 'Moved into the archive folder' : 'Moved out of the archive folder'
+      });
+    }
+  }
+
+  await refreshFolderChildren(moveInfo.oldParentId);
+  if (moveInfo.parentId !== moveInfo.oldParentId) {
+    await refreshFolderChildren(moveInfo.parentId);
+  }
+
+  // A moved folder changes the path of its whole subtree
+  const [node] = await chrome.bookmarks.get(id);
+  if (node && !node.url) {
+    await refreshFolderSubtree(id);
+  }
+});
+
+chrome.bookmarks.onChildrenReordered.addListener(async (id) => {
+  await refreshFolderChildren(id);
+});
+
+// v1.3.0: HTML imports and new-device sync create bookmarks in bulk
+chrome.bookmarks.onImportBegan.addListener(async () => {
+  await beginImportSession();
+});
+
+chrome.bookmarks.onImportEnded.addListener(async () => {
+  await endImportSession();
+});
+
 // Handle alarms
 chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === 'categorize') {
-    await runCategorizationTask();
+    await runJob('categorize');
   } else if (alarm.name === 'archive') {
-    await runArchivingTask();
+    await runJob('archive');
+  } else if (alarm.name === 'metadata') {
+    // v1.3.0: Missing, stale and failed page details
+    await runJob('metadata');
   } else if (alarm.name === 'analyzeHistory') {
     // v1.2.0: Run one-time history analysis
-    await analyzeExistingHistory();
+    await runJob('historyAnalysis');
   } else if (alarm.name === 'recalculateCandidates') {
     // v1.2.0: Recalculate time-windowed visits for candidates
-    await recalculateCandidateWindowVisits();
+    await runJob('candidateRecalculation');
+  } else {
+    // v1.3.0: Job continuations and retries
+    await handleJobAlarm(alarm.name);
   }
 });
 
-/**
- * Sync bookmarks from Chrome to local database
- */
-async function syncBookmarksFromChrome() {
-  const bookmarks = await flattenBookmarkTree();
-
-  for (const node of bookmarks) {
-    // Check if already exists
-    const existing = await db.bookmarks.get(node.id);
-    if (!existing) {
-      const bookmark: Bookmark = {
-        id: node.id,
-        url: node.url!,
-        title: node.title,
-        tags: [],
-        dateAdded: node.dateAdded || Date.now(),
-        visitCount: 0,
-        isPinned: false,
-        isArchived: false,
-        metadata: {
-          contentHash: generateContentHash(node.url!)
-        }
-      };
-
-      // Auto-categorize
-      const result = categorizeBookmark(bookmark);
-      if (result.confidence >= 0.5) {
-        bookmark.category = result.category;
-      }
-
-      await db.bookmarks.add(bookmark);
-
-      // Update category count
-      if (bookmark.category) {
-        await incrementCategoryCount(bookmark.category);
-      }
-    }
-  }
-}
-
 /**
  * Handle new bookmark added
  */
 async function handleBookmarkAdded(id: string, chromeBookmark: chrome.bookmarks.BookmarkTreeNode) {
   if (!chromeBookmark.url) return;
 
+  // Already stored by SmartMarks itself, see ownBookmarks.ts
+  if (await db.bookmarks.get(id)) return;
+
   const bookmark: Bookmark = {
     id,
     url: chromeBookmark.url,
@@ -150,26 +258,33 @@ async function handleBookmarkAdded(id: string, chromeBookmark: chrome.bookmarks.
     visitCount: 0,
     isPinned: false,
     isArchived: false,
+    parentId: chromeBookmark.parentId,
+    index: chromeBookmark.index,
+    folderPath: chromeBookmark.parentId ? await getFolderPath(chromeBookmark.parentId) : [],
     metadata: {
       contentHash: generateContentHash(chromeBookmark.url)
     }
   };
 
-  // Auto-categorize
-  const result = categorizeBookmark(bookmark);
-  if (result.confidence >= 0.5) {
-    bookmark.category = result.category;
+  // v1.3.0: Daily/weekly updates leave categorization to the scheduled batch job
+  if (!(await isRealtimeProcessing())) {
+    await db.bookmarks.add(bookmark);
+    return;
   }
 
-  await db.bookmarks.add(bookmark);
+  // Auto-categorize
+  const result = await assignCategory(bookmark);
 
-  // Update category count
+  await db.bookmarks.add(bookmark);
   if (bookmark.category) {
-    await incrementCategoryCount(bookmark.category);
+    await logActivity('categorize', { ...bookmark, category: undefined, categorization: undefined }, bookmark, {
+      cause: 'rule',
+      reason: categorizationReason(result)
+    });
   }
 
   // Fetch metadata asynchronously (don't block)
-  fetchAndUpdateMetadata(id, chromeBookmark.url).catch(err => {
+  refreshBookmarkMetadata(id, chromeBookmark.url).catch(err => {
     console.debug(`Failed to fetch metadata for ${chromeBookmark.url}:`, err);
   });
 
@@ -189,19 +304,38 @@ async function handleBookmarkAdded(id: string, chromeBookmark: chrome.bookmarks.
 }
 
 /**
- * Fetch and update bookmark metadata
- * Runs asynchronously after bookmark is added
+ * Handle a bookmark created during a Chrome import
+ * Stores a bare row only - categorization, metadata and notifications
+ * happen once for the whole import in processImportedBookmarks()
  */
-async function fetchAndUpdateMetadata(bookmarkId: string, url: string) {
-  const metadata = await extractMetadata(url);
+async function handleImportedBookmark(id: string, chromeBookmark: chrome.bookmarks.BookmarkTreeNode) {
+  if (!chromeBookmark.url) return;
 
-  // Update bookmark with fetched metadata
-  await db.bookmarks.update(bookmarkId, {
+  const bookmark: Bookmark = {
+    id,
+    url: chromeBookmark.url,
+    title: chromeBookmark.title,
+    tags: [],
+    dateAdded: chromeBookmark.dateAdded || Date.now(),
+    visitCount: 0,
+    isPinned: false,
+    isArchived: false,
+    parentId: chromeBookmark.parentId,
+    index: chromeBookmark.index,
+    folderPath: chromeBookmark.parentId ? await getFolderPath(chromeBookmark.parentId) : [],
     metadata: {
-      ...metadata,
-      contentHash: generateContentHash(url)
+      contentHash: generateContentHash(chromeBookmark.url)
+    }
+  };
+
+  // SmartMarks' own file import stores a richer row itself; don't overwrite it
+  await db.transaction('rw', db.bookmarks, async () => {
+    if (!(await db.bookmarks.get(id))) {
+      await db.bookmarks.put(bookmark);
     }
   });
+
+  await recordImportedBookmark(id);
 }
 
 /**
@@ -211,15 +345,8 @@ async function trackVisit(url: string, title?: string) {
   const settings = await db.settings.get('local');
   if (!settings) return;
 
-  // Check if URL is excluded
-  let domain: string;
-  try {
-    domain = new URL(url).hostname;
-  } catch {
-    return; // Invalid URL
-  }
-
-  if (settings.excludedDomains.some(d => domain.includes(d))) {
+  // Check if URL is excluded (invalid URLs have no domain to track)
+  if (!extractDomain(url) || findMatchingDomainPattern(url, settings.excludedDomains)) {
     return;
   }
 
@@ -238,245 +365,217 @@ async function trackVisit(url: string, title?: string) {
     await db.visitHistory.add({
       bookmarkId: bookmark.id,
       timestamp: Date.now(),
-      duration: 0 // Will be updated when tab closes
+      duration: 0 // Filled in by dwell tracking, see visitDuration.ts
     });
   } else if (settings.autoBookmarkEnabled) {
     // v1.2.0: Track as candidate if not bookmarked and auto-bookmarking is enabled
-    await trackCandidateUrl(url, title);
+    // v1.3.0: Outside realtime mode, promotion waits for the scheduled recalculation
+    await trackCandidateUrl(url, title, await isRealtimeProcessing());
   }
 }
 
 /**
- * Run categorization task with chunked processing (MV3 compatible)
- * Processes bookmarks in chunks of 100 to avoid service worker termination
+ * Categorize the next chunk of uncategorized bookmarks (job step, see jobRunner.ts)
+ * Walks the bookmarks in id order from the checkpoint, so bookmarks that stay
+ * uncategorized (low confidence) aren't picked up again by the next chunk
  */
-async function runCategorizationTask() {
+async function categorizeNextChunk(): Promise<boolean> {
   const CHUNK_SIZE = 100;
+  // v1.3.0: A category locked by the user is left alone, even Uncategorized
+  const isUncategorized = (b: Bookmark) => !b.categoryLocked && (!b.category || b.category === 'uncategorized');
 
-  try {
-    // Load existing checkpoint or create new one
-    let checkpoint = await loadCheckpoint('categorize');
-
-    if (!checkpoint) {
-      // Get all uncategorized bookmarks
-      const uncategorized = await db.bookmarks
-        .filter(b => !b.category || b.category === 'uncategorized')
-        .toArray();
+  // Load existing checkpoint or create new one
+  let checkpoint = await loadCheckpoint('categorize');
 
-      if (uncategorized.length === 0) {
-        console.log('No bookmarks to categorize');
-        return;
-      }
+  if (!checkpoint) {
+    // v1.3.0: Learn from categories assigned since the last run
+    await trainClassifier();
 
-      // Create new checkpoint
-      checkpoint = {
-        jobType: 'categorize',
-        startTime: Date.now(),
-        totalItems: uncategorized.length,
-        processedCount: 0,
-        status: 'running'
-      };
-      await saveCheckpoint(checkpoint);
-      console.log(`Starting categorization of ${uncategorized.length} bookmarks`);
-    } else {
-      console.log(`Resuming categorization: ${checkpoint.processedCount}/${checkpoint.totalItems}`);
-    }
+    // Count all uncategorized bookmarks
+    const uncategorizedCount = await db.bookmarks.filter(isUncategorized).count();
 
-    // Get next chunk to process
-    const bookmarksToProcess = await db.bookmarks
-      .filter(b => !b.category || b.category === 'uncategorized')
-      .limit(CHUNK_SIZE)
-      .toArray();
-
-    if (bookmarksToProcess.length === 0) {
-      // All done
-      await clearCheckpoint('categorize');
-      console.log(`Categorization complete: ${checkpoint.totalItems} bookmarks processed`);
-      return;
+    if (uncategorizedCount === 0) {
+      console.log('No bookmarks to categorize');
+      return false;
     }
 
-    // Process chunk
-    for (const bookmark of bookmarksToProcess) {
-      const result = categorizeBookmark(bookmark);
+    // Create new checkpoint
+    checkpoint = {
+      jobType: 'categorize',
+      startTime: Date.now(),
+      totalItems: uncategorizedCount,
+      processedCount: 0,
+      status: 'running'
+    };
+    await saveCheckpoint(checkpoint);
+    console.log(`Starting categorization of ${uncategorizedCount} bookmarks`);
+  } else {
+    console.log(`Resuming categorization: ${checkpoint.processedCount}/${checkpoint.totalItems}`);
+  }
 
-      if (result.confidence >= 0.5) {
-        await db.bookmarks.update(bookmark.id, {
-          category: result.category
-        });
+  // Get next chunk to process
+  const bookmarksToProcess = await db.bookmarks
+    .where('id')
+    .above(checkpoint.lastProcessedId ?? '')
+    .filter(isUncategorized)
+    .limit(CHUNK_SIZE)
+    .toArray();
+
+  // Process chunk
+  const assign = await createCategoryAssigner();
+  for (const bookmark of bookmarksToProcess) {
+    const before = { ...bookmark };
+    const result = assign(bookmark);
+
+    if (result.confidence >= MIN_CONFIDENCE) {
+      await db.bookmarks.update(bookmark.id, {
+        category: bookmark.category,
+        categorization: bookmark.categorization
+      });
+      await logActivity('categorize', before, bookmark, jobOrigin(checkpoint, categorizationReason(result)));
+    }
 
-        if (result.category) {
-          await incrementCategoryCount(result.category);
-        }
-      }
+    checkpoint.processedCount++;
+    checkpoint.lastProcessedId = bookmark.id;
+  }
 
-      checkpoint.processedCount++;
-    }
+  if (bookmarksToProcess.length < CHUNK_SIZE) {
+    // All done
+    await clearCheckpoint('categorize');
+    console.log(`Categorization complete: ${checkpoint.processedCount} bookmarks processed`);
+    return false;
+  }
 
-    // Save checkpoint
-    await saveCheckpoint(checkpoint);
+  // Save checkpoint
+  await saveCheckpoint(checkpoint);
+  return true;
+}
 
-    // Schedule next chunk if more to process
-    if (checkpoint.processedCount < checkpoint.totalItems) {
-      // Use setTimeout to continue processing after a small delay
-      // This allows the service worker to yield and prevents blocking
-      setTimeout(() => runCategorizationTask(), 100);
-    } else {
-      // All done
-      await clearCheckpoint('categorize');
-      console.log(`Categorization complete: ${checkpoint.totalItems} bookmarks processed`);
+/**
+ * Duplicates to archive, keeping the most recently visited bookmark of each group
+ */
+async function findDuplicatesToArchive(skip: Set<string>): Promise<ArchivePick[]> {
+  const allActive = await db.bookmarks.filter(b => !b.isArchived).toArray();
+  const byId = new Map(allActive.map(b => [b.id, b]));
+  const picks: ArchivePick[] = [];
+
+  for (const ids of findDuplicates(allActive).values()) {
+    const sorted = ids
+      .map(id => byId.get(id))
+      .filter((b): b is Bookmark => b !== undefined)
+      .sort((a, b) => (b.lastVisited || 0) - (a.lastVisited || 0));
+
+    // Archive all except the first (most recent)
+    for (const bookmark of sorted.slice(1)) {
+      if (!skip.has(bookmark.id)) {
+        picks.push({ bookmark, reason: `Duplicate of "${sorted[0].title}"`, duplicateOf: sorted[0].id });
+      }
     }
-  } catch (error) {
-    console.error('Categorization task failed:', error);
-    await clearCheckpoint('categorize');
   }
+
+  return picks;
 }
 
 /**
- * Run archiving task with chunked processing (MV3 compatible)
- * Archives inactive bookmarks and duplicates in manageable chunks
+ * Archive the next chunk of inactive bookmarks and duplicates (job step, see jobRunner.ts)
+ * In review mode (Settings.archiveReview) they are only proposed, see archiveReview.ts
  */
-async function runArchivingTask() {
+async function archiveNextChunk(): Promise<boolean> {
   const CHUNK_SIZE = 100;
+  const DAY_MS = 24 * 60 * 60 * 1000;
 
-  try {
-    // Check if auto-archive is enabled
-    const settings = await db.settings.get('local');
-    if (!settings || !settings.autoArchive) {
-      console.log('Auto-archive is disabled');
-      return;
-    }
+  // Check if auto-archive is enabled
+  const settings = await db.settings.get('local');
+  if (!settings || !settings.autoArchive) {
+    console.log('Auto-archive is disabled');
+    await clearCheckpoint('archive');
+    return false;
+  }
 
-    // Load existing checkpoint or create new one
-    let checkpoint = await loadCheckpoint('archive');
-
-    if (!checkpoint) {
-      // Count bookmarks that need archiving
-      const now = Date.now();
-      const threshold = settings.archiveThreshold * 24 * 60 * 60 * 1000;
-
-      const candidatesForArchiving = await db.bookmarks
-        .filter(b => {
-          if (b.isPinned || b.isArchived) return false;
-          if (b.lastVisited && (now - b.lastVisited) > threshold) return true;
-          return false;
-        })
-        .toArray();
-
-      // Also count duplicates
-      const allActive = await db.bookmarks.filter(b => !b.isArchived).toArray();
-      const duplicates = findDuplicates(allActive);
-      let duplicateCount = 0;
-      for (const ids of duplicates.values()) {
-        duplicateCount += ids.length - 1; // Keep one, archive others
-      }
+  const review = settings.archiveReview ?? false;
+  const now = Date.now();
+  const threshold = settings.archiveThreshold * DAY_MS;
+
+  // v1.3.0: Excluded, snoozed and (in review mode) already proposed bookmarks are skipped
+  let skip = await getArchiveSkipIds(review);
+  // v1.3.0: Brief visits (bounces) don't keep a bookmark active
+  const isInactive = (b: Bookmark) => {
+    if (b.isPinned || b.isArchived || skip.has(b.id)) return false;
+    const lastUsed = lastEngagedAt(b);
+    if (lastUsed && (now - lastUsed) > threshold) return true;
+    return false;
+  };
 
-      const totalToArchive = candidatesForArchiving.length + duplicateCount;
+  // Load existing checkpoint or create new one
+  let checkpoint = await loadCheckpoint('archive');
 
-      if (totalToArchive === 0) {
-        console.log('No bookmarks to archive');
-        return;
-      }
+  if (!checkpoint) {
+    // Count bookmarks that need archiving, and duplicates
+    const inactiveCount = await db.bookmarks.filter(isInactive).count();
+    const duplicateCount = (await findDuplicatesToArchive(skip)).length;
+    const totalToArchive = inactiveCount + duplicateCount;
 
-      // Create new checkpoint
-      checkpoint = {
-        jobType: 'archive',
-        startTime: Date.now(),
-        totalItems: totalToArchive,
-        processedCount: 0,
-        status: 'running'
-      };
-      await saveCheckpoint(checkpoint);
-      console.log(`Starting archiving of ${totalToArchive} bookmarks`);
-    } else {
-      console.log(`Resuming archiving: ${checkpoint.processedCount}/${checkpoint.totalItems}`);
+    if (totalToArchive === 0) {
+      console.log('No bookmarks to archive');
+      return false;
     }
 
-    // Phase 1: Archive inactive bookmarks (in chunks)
-    const now = Date.now();
-    const threshold = settings.archiveThreshold * 24 * 60 * 60 * 1000;
+    // Create new checkpoint
+    checkpoint = {
+      jobType: 'archive',
+      startTime: Date.now(),
+      totalItems: totalToArchive,
+      processedCount: 0,
+      status: 'running'
+    };
+    await saveCheckpoint(checkpoint);
+    console.log(`Starting archiving of ${totalToArchive} bookmarks`);
+  } else {
+    console.log(`Resuming archiving: ${checkpoint.processedCount}/${checkpoint.totalItems}`);
+  }
 
-    const inactiveChunk = await db.bookmarks
-      .filter(b => {
-        if (b.isPinned || b.isArchived) return false;
-        if (b.lastVisited && (now - b.lastVisited) > threshold) return true;
-        return false;
-      })
-      .limit(CHUNK_SIZE)
-      .toArray();
+  // Phase 1: Inactive bookmarks (in chunks)
+  const inactiveChunk = await db.bookmarks.filter(isInactive).limit(CHUNK_SIZE).toArray();
+  const picks: ArchivePick[] = inactiveChunk.map(bookmark => {
+    const days = Math.floor((now - lastEngagedAt(bookmark)!) / DAY_MS);
+    const bouncedSince = (bookmark.lastVisited ?? 0) > lastEngagedAt(bookmark)!;
+    return {
+      bookmark,
+      reason: bouncedSince ? `Only brief visits in ${days} days` : `Not visited in ${days} days`
+    };
+  });
 
-    for (const bookmark of inactiveChunk) {
-      await db.bookmarks.update(bookmark.id, {
-        isArchived: true
-      });
-      checkpoint.processedCount++;
-    }
+  // Phase 2: Duplicates (if inactive chunk is done)
+  if (inactiveChunk.length < CHUNK_SIZE) {
+    picks.push(...(await findDuplicatesToArchive(skip)).slice(0, CHUNK_SIZE));
+  }
 
-    // Phase 2: Archive duplicates (if inactive chunk is done)
-    if (inactiveChunk.length < CHUNK_SIZE) {
-      const allActive = await db.bookmarks.filter(b => !b.isArchived).toArray();
-      const duplicates = findDuplicates(allActive);
-
-      let duplicatesProcessed = 0;
-      for (const [_, ids] of duplicates.entries()) {
-        if (duplicatesProcessed >= CHUNK_SIZE) break;
-
-        // Keep the most recently visited, archive others
-        const bookmarksToCheck = await db.bookmarks.bulkGet(ids);
-        const sorted = bookmarksToCheck
-          .filter((b): b is Bookmark => b !== undefined)
-          .sort((a, b) => (b.lastVisited || 0) - (a.lastVisited || 0));
-
-        // Archive all except the first (most recent)
-        for (let i = 1; i < sorted.length; i++) {
-          await db.bookmarks.update(sorted[i].id, {
-            isArchived: true
-          });
-          checkpoint.processedCount++;
-          duplicatesProcessed++;
-        }
-      }
+  if (review) {
+    await proposeArchive(picks);
+  } else {
+    for (const { bookmark, reason } of picks) {
+      await setBookmarksArchived([bookmark.id], true, jobOrigin(checkpoint, reason));
     }
+  }
+  checkpoint.processedCount += picks.length;
 
-    // Save checkpoint
-    await saveCheckpoint(checkpoint);
+  // Save checkpoint
+  await saveCheckpoint(checkpoint);
 
-    // Check if more processing needed
-    const stillHasInactive = await db.bookmarks
-      .filter(b => {
-        if (b.isPinned || b.isArchived) return false;
-        if (b.lastVisited && (now - b.lastVisited) > threshold) return true;
-        return false;
-      })
-      .count();
-
-    const allActiveNow = await db.bookmarks.filter(b => !b.isArchived).toArray();
-    const remainingDuplicates = findDuplicates(allActiveNow);
-    const hasDuplicates = remainingDuplicates.size > 0;
-
-    if (stillHasInactive > 0 || hasDuplicates) {
-      // Continue processing
-      setTimeout(() => runArchivingTask(), 100);
-    } else {
-      // All done
-      await clearCheckpoint('archive');
-      console.log(`Archiving complete: ${checkpoint.processedCount} bookmarks archived`);
-    }
-  } catch (error) {
-    console.error('Archiving task failed:', error);
-    await clearCheckpoint('archive');
-  }
-}
+  // Check if more processing needed
+  skip = await getArchiveSkipIds(review);
+  const stillHasInactive = await db.bookmarks.filter(isInactive).count();
+  const hasDuplicates = (await findDuplicatesToArchive(skip)).length > 0;
 
-/**
- * Increment category bookmark count
- */
-async function incrementCategoryCount(categoryId: string) {
-  const category = await db.categories.get(categoryId);
-  if (category) {
-    await db.categories.update(categoryId, {
-      bookmarkCount: category.bookmarkCount + 1
-    });
+  if (stillHasInactive > 0 || hasDuplicates) {
+    // Continue processing
+    return true;
   }
+
+  // All done
+  await clearCheckpoint('archive');
+  console.log(`Archiving complete: ${checkpoint.processedCount} bookmarks ${review ? 'proposed' : 'archived'}`);
+  return false;
 }
 
 /**
@@ -521,99 +620,157 @@ chrome.permissions.onRemoved.addListener((permissions) => {
   }
 });
 
-// Listen to messages from popup for fallback visit tracking
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  if (message.type === 'TRACK_BOOKMARK_CLICK') {
-    // Track visit when user clicks bookmark in popup (fallback tracking)
-    db.bookmarks.get(message.bookmarkId).then(async (bookmark) => {
-      if (bookmark) {
-        await db.bookmarks.update(bookmark.id, {
-          lastVisited: Date.now(),
-          visitCount: bookmark.visitCount + 1
-        });
-
-        await db.visitHistory.add({
-          bookmarkId: bookmark.id,
-          timestamp: Date.now(),
-          duration: 0
-        });
-      }
-    });
-    sendResponse({ success: true });
-  }
-  // v1.2.0: Tab grouping messages
-  else if (message.type === 'GROUP_TABS') {
-    groupTabsByCategory().then(result => {
-      sendResponse({ success: true, result });
-    }).catch(error => {
-      console.error('Tab grouping failed:', error);
-      sendResponse({ success: false, error: error.message });
-    });
-  }
-  else if (message.type === 'UNGROUP_TABS') {
-    ungroupAllTabs().then(count => {
-      sendResponse({ success: true, ungrouped: count });
-    }).catch(error => {
-      console.error('Tab ungrouping failed:', error);
-      sendResponse({ success: false, error: error.message });
-    });
-  }
-  else if (message.type === 'GET_TAB_GROUP_STATS') {
-    getTabGroupStats().then(stats => {
-      sendResponse({ success: true, stats });
-    }).catch(error => {
-      sendResponse({ success: false, error: error.message });
+/**
+ * Save settings changes and apply them without waiting for a restart
+ */
+async function updateSettings(changes: Partial<Settings>): Promise<Settings> {
+  await db.settings.update('local', changes);
+
+  const frequency = await scheduleProcessingAlarms();
+  if ('updateFrequency' in changes && frequency === 'realtime') {
+    // Catch up on bookmarks left for the batch job under daily/weekly updates
+    runJob('categorize').catch(err => {
+      console.error('Failed to start categorization:', err);
     });
-  }
-  // v1.2.0: History analysis messages
-  else if (message.type === 'ANALYZE_HISTORY') {
-    analyzeExistingHistory().then(result => {
-      sendResponse({ success: true, result });
-    }).catch(error => {
-      console.error('History analysis failed:', error);
-      sendResponse({ success: false, error: error.message });
+  } else if (changes.enableAI) {
+    // Train the classifier and let it try the uncategorized bookmarks
+    runJob('categorize').catch(err => {
+      console.error('Failed to start categorization:', err);
     });
   }
-  else if (message.type === 'GET_ANALYSIS_STATS') {
-    getAnalysisStats().then(stats => {
-      sendResponse({ success: true, stats });
-    }).catch(error => {
-      sendResponse({ success: false, error: error.message });
-    });
-  }
-  // v1.2.0: Candidate tracking messages
-  else if (message.type === 'GET_CANDIDATE_STATS') {
-    getCandidateStats().then(stats => {
-      sendResponse({ success: true, stats });
-    }).catch(error => {
-      sendResponse({ success: false, error: error.message });
+
+  return (await db.settings.get('local'))!;
+}
+
+// v1.3.0: Every request from the popup and Options, see messages.ts
+const messageHandlers: RpcHandlers = {
+  // Fallback visit tracking when the user clicks a bookmark in the popup
+  TRACK_BOOKMARK_CLICK: async ({ bookmarkId }) => {
+    await recordBookmarkVisit(bookmarkId);
+    return {};
+  },
+  UPDATE_BOOKMARK: async ({ bookmarkId, changes }) => {
+    await updateBookmark(bookmarkId, changes);
+    return {};
+  },
+  DELETE_BOOKMARKS: async ({ bookmarkIds }) => ({ deleted: await deleteBookmarks(bookmarkIds) }),
+  ARCHIVE_BOOKMARKS: async ({ bookmarkIds }) => ({ updated: await setBookmarksArchived(bookmarkIds, true) }),
+  RESTORE_BOOKMARKS: async ({ bookmarkIds }) => ({ updated: await setBookmarksArchived(bookmarkIds, false) }),
+  ADD_TAGS: async ({ bookmarkIds, tags }) => ({ updated: await addTagsToBookmarks(bookmarkIds, tags) }),
+  REMOVE_TAGS: async ({ bookmarkIds, tags }) => ({ updated: await removeTagsFromBookmarks(bookmarkIds, tags) }),
+  ORGANIZE_INTO_FOLDERS: async () => await organizeIntoCategoryFolders(),
+  APPLY_CATEGORY_TO_DOMAIN: async ({ bookmarkId }) => ({ updated: await applyCorrectionToDomain(bookmarkId) }),
+
+  // v1.2.0: Tab grouping
+  GROUP_TABS: async () => ({ result: await groupTabsByCategory() }),
+  UNGROUP_TABS: async () => ({ ungrouped: await ungroupAllTabs() }),
+  GET_TAB_GROUP_STATS: async () => ({ stats: await getTabGroupStats() }),
+
+  // v1.2.0: History analysis - runs the first chunks now, the job runner finishes the rest
+  ANALYZE_HISTORY: async () => {
+    await runJob('historyAnalysis');
+    return { stats: await getAnalysisStats() };
+  },
+  GET_ANALYSIS_STATS: async () => ({ stats: await getAnalysisStats() }),
+
+  // v1.2.0: Candidate tracking
+  GET_CANDIDATE_STATS: async () => ({ stats: await getCandidateStats() }),
+  GET_TOP_CANDIDATES: async ({ limit }) => ({ candidates: await getTopCandidates(limit || 10) }),
+
+  // v1.2.0: Natural language preferences
+  SAVE_PREFERENCES: async ({ text }) => {
+    await db.settings.update('local', { naturalLanguagePreferences: text });
+    const rules = parsePreferences(text, await loadCategoryKeywords());
+    await saveRulesToDatabase(rules);
+    return { rules: formatRulesForDisplay(rules) };
+  },
+  PARSE_PREFERENCES: async ({ text }) => {
+    const rules = parsePreferences(text, await loadCategoryKeywords());
+    return { rules: formatRulesForDisplay(rules) };
+  },
+
+  UPDATE_SETTINGS: async ({ changes }) => ({ settings: await updateSettings(changes) }),
+
+  // v1.3.0: Chrome bookmark reconciliation
+  RECONCILE_BOOKMARKS: async () => ({ report: await reconcileBookmarks() }),
+  REPAIR_CATEGORY_COUNTS: async () => {
+    await db.recomputeCategoryCounts();
+    return {};
+  },
+  GET_RECONCILIATION_REPORT: async () => ({ report: await getLastReconciliationReport() }),
+
+  // v1.3.0: User-defined categories
+  CREATE_CATEGORY: async ({ category }) => ({ category: await createCategory(category) }),
+  UPDATE_CATEGORY: async ({ categoryId, changes }) => ({ category: await updateCategory(categoryId, changes) }),
+  MERGE_CATEGORIES: async ({ sourceId, targetId }) => ({ moved: await mergeCategories(sourceId, targetId) }),
+  DELETE_CATEGORY: async ({ categoryId, reassignTo }) => ({ moved: await deleteCategory(categoryId, reassignTo) }),
+
+  // v1.3.0: Backup and restore
+  CREATE_BACKUP: async () => ({ backup: await createBackup() }),
+  RESTORE_BACKUP: async ({ backup, mode }) => {
+    const report = await restoreBackup(backup, mode);
+    // The restored settings may use a different update frequency
+    await scheduleProcessingAlarms();
+    return { report };
+  },
+
+  // v1.3.0: Netscape bookmark file (bookmarks.html) import/export
+  EXPORT_BOOKMARKS_HTML: async () => ({ html: await exportNetscapeHtml() }),
+  IMPORT_BOOKMARKS_HTML: async ({ html }) => ({ report: await importNetscapeHtml(html) }),
+
+  // v1.3.0: Link health - the check runs as a job, progress shows in the job monitor
+  CHECK_LINKS: async () => {
+    runJob('linkCheck').catch(err => {
+      console.error('Failed to start link check:', err);
     });
-  }
-  else if (message.type === 'GET_TOP_CANDIDATES') {
-    getTopCandidates(message.limit || 10).then(candidates => {
-      sendResponse({ success: true, candidates });
-    }).catch(error => {
-      sendResponse({ success: false, error: error.message });
+    return {};
+  },
+  APPLY_LINK_REDIRECTS: async ({ bookmarkIds }) => ({ updated: await applyLinkRedirects(bookmarkIds) }),
+
+  // v1.3.0: Activity log undo
+  UNDO_ACTIVITY: async ({ entryId }) => {
+    await undoActivity(entryId);
+    return {};
+  },
+  UNDO_JOB_RUN: async ({ runId }) => await undoJobRun(runId),
+
+  // v1.3.0: Archive review
+  APPROVE_ARCHIVE_PROPOSALS: async ({ bookmarkIds }) => ({ updated: await approveProposals(bookmarkIds) }),
+  EXCLUDE_ARCHIVE_PROPOSALS: async ({ bookmarkIds }) => ({ updated: await excludeProposals(bookmarkIds) }),
+  SNOOZE_ARCHIVE_PROPOSALS: async ({ bookmarkIds, days }) => ({ updated: await snoozeProposals(bookmarkIds, days) }),
+
+  // v1.3.0: Categorization rules - uncategorized bookmarks get another pass with the new rules
+  SAVE_CATEGORIZATION_RULE: async ({ rule }) => {
+    const saved = await saveCategorizationRule(rule);
+    runJob('categorize').catch(err => {
+      console.error('Failed to start categorization:', err);
     });
-  }
-  // v1.2.0: Natural language preferences
-  else if (message.type === 'SAVE_PREFERENCES') {
-    const rules = parsePreferences(message.text);
-    saveRulesToDatabase(rules).then(() => {
-      const formatted = formatRulesForDisplay(rules);
-      sendResponse({ success: true, rules: formatted });
-    }).catch(error => {
-      console.error('Failed to save preferences:', error);
-      sendResponse({ success: false, error: error.message });
+    return { rule: saved };
+  },
+  DELETE_CATEGORIZATION_RULE: async ({ ruleId }) => {
+    await deleteCategorizationRule(ruleId);
+    return {};
+  },
+  RESET_CATEGORIZATION_RULES: async () => {
+    await resetDefaultRules();
+    runJob('categorize').catch(err => {
+      console.error('Failed to start categorization:', err);
     });
+    return {};
   }
-  else if (message.type === 'PARSE_PREFERENCES') {
-    const rules = parsePreferences(message.text);
-    const formatted = formatRulesForDisplay(rules);
-    sendResponse({ success: true, rules: formatted });
+};
+
+chrome.runtime.onMessage.addListener(createRpcListener(messageHandlers));
+
+// v1.3.0: Requests from allowlisted extensions, see docs/EXTERNAL_API.md
+chrome.runtime.onMessageExternal.addListener(handleExternalMessage);
+
+// v1.3.0: Live job progress for the Options page
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === JOB_MONITOR_PORT) {
+    connectJobMonitor(port);
   }
-  return true; // Keep message channel open for async response
 });
 
 // Export for use in other scripts
-export { syncBookmarksFromChrome, runCategorizationTask, runArchivingTask, setupHistoryTracking };
+export { reconcileBookmarks, setupHistoryTracking };
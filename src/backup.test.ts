@@ -0,0 +1,180 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, type Bookmark } from './db';
+import { createBackup, restoreBackup, type SmartMarksBackup } from './backup';
+
+type Node = chrome.bookmarks.BookmarkTreeNode;
+
+// Just enough of chrome.bookmarks and chrome.storage for a restore:
+// the root with "Bookmarks bar" (1) and "Other bookmarks" (2)
+function fakeChrome() {
+  const nodes = new Map<string, Node>();
+  let nextId = 3;
+  const add = (node: Node) => {
+    nodes.set(node.id, node);
+    if (node.parentId) {
+      const parent = nodes.get(node.parentId)!;
+      node.index = parent.children!.length;
+      parent.children!.push(node);
+    }
+    return node;
+  };
+  add({ id: '0', title: '', children: [], syncing: false });
+  add({ id: '1', parentId: '0', title: 'Bookmarks bar', children: [], syncing: false });
+  add({ id: '2', parentId: '0', title: 'Other bookmarks', children: [], syncing: false });
+
+  const find = (id: string) => {
+    const node = nodes.get(id);
+    if (!node) throw new Error(`Can't find bookmark for id ${id}`);
+    return node;
+  };
+  const storage: Record<string, unknown> = {};
+
+  return {
+    bookmarks: {
+      getTree: async () => [nodes.get('0')!],
+      get: async (id: string) => [find(id)],
+      getChildren: async (id: string) => [...(find(id).children ?? [])],
+      getSubTree: async (id: string) => [find(id)],
+      create: async ({ parentId = '2', title = '', url }: { parentId?: string; title?: string; url?: string }) =>
+        add({ id: String(nextId++), parentId, title, url, dateAdded: Date.now(), syncing: false, ...(url ? {} : { children: [] }) })
+    },
+    storage: {
+      local: {
+        get: async (key: string) => (key in storage ? { [key]: storage[key] } : {}),
+        set: async (items: Record<string, unknown>) => { Object.assign(storage, items); }
+      }
+    }
+  };
+}
+
+let chromeApi: ReturnType<typeof fakeChrome>;
+
+async function addBookmark(url: string, title: string, category = 'dev'): Promise<Bookmark> {
+  const node = await chromeApi.bookmarks.create({ parentId: '1', title, url });
+  const bookmark: Bookmark = {
+    id: node.id,
+    url,
+    title,
+    category,
+    tags: ['saved'],
+    dateAdded: 1_000,
+    visitCount: 2,
+    isPinned: false,
+    isArchived: false,
+    parentId: '1',
+    index: node.index,
+    folderPath: ['Bookmarks bar'],
+    metadata: { contentHash: url }
+  };
+  await db.bookmarks.add(bookmark);
+  return bookmark;
+}
+
+function tampered(backup: SmartMarksBackup, change: (backup: SmartMarksBackup) => void): SmartMarksBackup {
+  const copy = structuredClone(backup);
+  change(copy);
+  return copy;
+}
+
+beforeEach(async () => {
+  chromeApi = fakeChrome();
+  vi.stubGlobal('chrome', chromeApi);
+  await Promise.all(db.tables.map(table => table.clear()));
+  await db.initialize();
+});
+
+describe('backup round trip', () => {
+  it('restores every backed-up table with replace', async () => {
+    const github = await addBookmark('https://github.com/', 'GitHub');
+    await addBookmark('https://example.com/', 'Example', 'news');
+    await db.visitHistory.add({ bookmarkId: github.id, timestamp: 5_000, duration: 30_000 });
+    await db.settings.update('local', { excludedDomains: ['bank.example'], archiveThreshold: 45 });
+    await db.recomputeCategoryCounts();
+
+    const backup = await createBackup();
+    const before = structuredClone(backup.tables);
+
+    await db.bookmarks.clear();
+    await db.visitHistory.clear();
+    await db.settings.update('local', { excludedDomains: [], archiveThreshold: 90 });
+
+    const report = await restoreBackup(backup, 'replace');
+    const after = await createBackup();
+
+    expect(report).toMatchObject({ mode: 'replace', bookmarks: 2, remapped: 0, recreated: 0, visits: 1 });
+    expect(after.tables).toEqual(before);
+    expect(after.checksum).toBe(backup.checksum);
+  });
+
+  it('survives JSON serialization, as when saved to a file', async () => {
+    await addBookmark('https://github.com/', 'GitHub');
+    const backup: SmartMarksBackup = JSON.parse(JSON.stringify(await createBackup()));
+
+    await expect(restoreBackup(backup, 'replace')).resolves.toMatchObject({ bookmarks: 1 });
+  });
+
+  it('matches bookmarks by URL when Chrome ids changed and recreates missing ones', async () => {
+    const github = await addBookmark('https://github.com/', 'GitHub');
+    const gone = await addBookmark('https://example.com/', 'Example');
+    await db.visitHistory.add({ bookmarkId: github.id, timestamp: 5_000, duration: 1_000 });
+    const backup = await createBackup();
+
+    // A new profile: same GitHub bookmark under another id, no example.com
+    chromeApi = fakeChrome();
+    vi.stubGlobal('chrome', chromeApi);
+    await chromeApi.bookmarks.create({ parentId: '1', title: 'Other', url: 'https://other.example/' });
+    const moved = await chromeApi.bookmarks.create({ parentId: '1', title: 'GitHub', url: 'https://github.com/' });
+
+    const report = await restoreBackup(backup, 'replace');
+    expect(report).toMatchObject({ remapped: 1, recreated: 1 });
+
+    const restored = await db.bookmarks.get(moved.id);
+    expect(restored).toMatchObject({ url: github.url, category: 'dev', tags: ['saved'] });
+    expect(await db.visitHistory.where('bookmarkId').equals(moved.id).count()).toBe(1);
+    // The old GitHub id now belongs to a bookmark only Chrome had, picked up by reconciliation
+    expect(await db.bookmarks.get(github.id)).toMatchObject({ url: 'https://other.example/', tags: [] });
+
+    const [folder] = (await chromeApi.bookmarks.getChildren('2')).filter(node => !node.url);
+    expect(folder.title).toBe('Restored by SmartMarks');
+    const [recreated] = await chromeApi.bookmarks.getChildren(folder.id);
+    expect(recreated.url).toBe(gone.url);
+    expect(await db.bookmarks.get(recreated.id)).toMatchObject({ title: 'Example' });
+  });
+
+  it('keeps local rows and settings that belong to this browser with merge', async () => {
+    await addBookmark('https://github.com/', 'GitHub');
+    await db.settings.update('local', { excludedDomains: ['a.example'], enableAI: false });
+    const backup = await createBackup();
+
+    const local = await addBookmark('https://example.com/', 'Example');
+    await db.settings.update('local', { excludedDomains: ['b.example'], enableAI: true });
+
+    await restoreBackup(backup, 'merge');
+
+    expect(await db.bookmarks.get(local.id)).toBeDefined();
+    const settings = await db.settings.get('local');
+    expect(settings?.excludedDomains.sort()).toEqual(['a.example', 'b.example']);
+    expect(settings?.enableAI).toBe(true);
+  });
+});
+
+describe('restoreBackup checks', () => {
+  it('rejects files that are not backups', async () => {
+    const notBackup = { format: 'something-else', tables: {} } as unknown as SmartMarksBackup;
+    await expect(restoreBackup(notBackup, 'merge')).rejects.toThrow('Not a SmartMarks backup file');
+  });
+
+  it('rejects edited backups', async () => {
+    await addBookmark('https://github.com/', 'GitHub');
+    const backup = await tampered(await createBackup(), copy => { copy.tables.bookmarks[0].title = 'Edited'; });
+
+    await expect(restoreBackup(backup, 'replace')).rejects.toThrow('checksum');
+    expect(await db.bookmarks.count()).toBe(1);
+  });
+
+  it('rejects backups from a newer schema', async () => {
+    const backup = await tampered(await createBackup(), copy => { copy.schemaVersion = db.verno + 1; });
+    await expect(restoreBackup(backup, 'replace')).rejects.toThrow('newer SmartMarks');
+  });
+});
@@ -0,0 +1,425 @@
+import Dexie from 'dexie';
+import {
+  db,
+  SmartMarksDB,
+  type Bookmark,
+  type Category,
+  type VisitHistory,
+  type Settings,
+  type CandidateUrl,
+  type NaturalLanguageRule,
+  type CategorizationRuleRecord,
+  type LearnedAssociation,
+  type ArchiveProposal
+} from './db';
+import { normalizeURL } from './categorization';
+import { flattenBookmarkTree } from './utils';
+import { reconcileBookmarks } from './reconciliation';
+import { whileCreatingBookmarks } from './ownBookmarks';
+
+/// <reference types="chrome"/>
+
+const BACKUP_FORMAT = 'smartmarks-backup';
+const RESTORE_FOLDER_TITLE = 'Restored by SmartMarks';
+const OTHER_BOOKMARKS_ID = '2';
+
+// Checkpoints are transient job state, the classifier is retrained from the
+// bookmarks, and the activity log records this browser's history, so none are
+// backed up
+export interface BackupTables {
+  bookmarks: Bookmark[];
+  categories: Category[];
+  visitHistory: VisitHistory[];
+  settings: Settings[];
+  candidateUrls: CandidateUrl[];
+  naturalLanguageRules: NaturalLanguageRule[];
+  categorizationRules: CategorizationRuleRecord[];
+  learnedAssociations: LearnedAssociation[];
+  archiveProposals: ArchiveProposal[];
+}
+
+const BACKUP_TABLES: Array<keyof BackupTables> = [
+  'bookmarks',
+  'categories',
+  'visitHistory',
+  'settings',
+  'candidateUrls',
+  'naturalLanguageRules',
+  'categorizationRules',
+  'learnedAssociations',
+  'archiveProposals'
+];
+
+export interface SmartMarksBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number; // SmartMarksDB version the tables were exported from
+  exportedAt: number;
+  checksum: string;      // SHA-256 of JSON.stringify(tables)
+  tables: BackupTables;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  upgradedFrom?: number;
+  bookmarks: number;
+  remapped: number;   // Matched to a Chrome bookmark with a different id
+  recreated: number;  // Missing from Chrome, created again in the restore folder
+  categories: number;
+  visits: number;
+  candidates: number;
+  rules: number;      // Preference rules and user categorization rules
+}
+
+/**
+ * SHA-256 hex digest of the backup tables
+ */
+async function computeChecksum(tables: BackupTables): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(tables));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Drop an auto-increment id so the row gets a fresh one when merged
+ */
+function withoutId<T extends { id?: number }>(row: T): T {
+  const copy = { ...row };
+  delete copy.id;
+  return copy;
+}
+
+/**
+ * Export the SmartMarksDB tables listed in BackupTables as a versioned backup
+ */
+export async function createBackup(): Promise<SmartMarksBackup> {
+  const tables: BackupTables = {
+    bookmarks: await db.bookmarks.toArray(),
+    categories: await db.categories.toArray(),
+    visitHistory: await db.visitHistory.toArray(),
+    settings: await db.settings.toArray(),
+    candidateUrls: await db.candidateUrls.toArray(),
+    naturalLanguageRules: await db.naturalLanguageRules.toArray(),
+    categorizationRules: await db.categorizationRules.toArray(),
+    learnedAssociations: await db.learnedAssociations.toArray(),
+    archiveProposals: await db.archiveProposals.toArray()
+  };
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: db.verno,
+    exportedAt: Date.now(),
+    checksum: await computeChecksum(tables),
+    tables
+  };
+}
+
+/**
+ * Check a parsed backup file before anything is written
+ */
+async function validateBackup(backup: SmartMarksBackup): Promise<void> {
+  if (backup?.format !== BACKUP_FORMAT || !backup.tables) {
+    throw new Error('Not a SmartMarks backup file');
+  }
+  if (!Number.isInteger(backup.schemaVersion) || backup.schemaVersion < 1) {
+    throw new Error('Backup has no valid schema version');
+  }
+  if (backup.schemaVersion > db.verno) {
+    throw new Error(`Backup is from a newer SmartMarks (schema ${backup.schemaVersion}); update the extension first`);
+  }
+  if (await computeChecksum(backup.tables) !== backup.checksum) {
+    throw new Error('Backup checksum does not match; the file is corrupted or was edited');
+  }
+}
+
+/**
+ * Bring tables from an older schema up to the current one
+ * Loads them into a scratch database declared at the backup's version, then reopens
+ * it at the current version so Dexie runs the same upgrade functions as a real update
+ */
+async function upgradeTables(tables: BackupTables, fromVersion: number): Promise<BackupTables> {
+  const scratchName = `SmartMarksDB-restore-${Date.now()}`;
+
+  try {
+    const oldDb = new SmartMarksDB(scratchName, fromVersion);
+    await oldDb.open();
+    await oldDb.transaction('rw', oldDb.tables, async () => {
+      for (const table of oldDb.tables) {
+        const rows = tables[table.name as keyof BackupTables];
+        if (rows?.length) {
+          await table.bulkAdd(rows);
+        }
+      }
+    });
+    oldDb.close();
+
+    const upgradedDb = new SmartMarksDB(scratchName);
+    await upgradedDb.open();
+    const upgraded = {} as BackupTables;
+    for (const name of BACKUP_TABLES) {
+      (upgraded as unknown as Record<string, unknown[]>)[name] = await upgradedDb.table(name).toArray();
+    }
+    upgradedDb.close();
+
+    return upgraded;
+  } finally {
+    await Dexie.delete(scratchName);
+  }
+}
+
+// Settings that belong to this browser: the extensions allowed to call the API
+// and the features switched on here. A merge keeps the local values.
+const LOCAL_SETTINGS: Array<keyof Settings> = [
+  'isPremium',
+  'externalClients',
+  'enableAI',
+  'autoArchive',
+  'autoBookmarkEnabled',
+  'archiveToFolder',
+  'archiveReview',
+  'historyAnalyzedAt'
+];
+
+/**
+ * Merge backed-up settings into the local ones field by field
+ * Preferences come from the backup, excluded domains and category redirects
+ * are combined, and LOCAL_SETTINGS stay as they are
+ */
+function mergeSettings(local: Settings | undefined, backup: Settings): Settings {
+  if (!local) return backup;
+
+  const merged: Settings = {
+    ...local,
+    ...backup,
+    excludedDomains: [...new Set([...local.excludedDomains, ...backup.excludedDomains])],
+    categoryRedirects: { ...local.categoryRedirects, ...backup.categoryRedirects }
+  };
+  for (const key of LOCAL_SETTINGS) {
+    Object.assign(merged, { [key]: local[key] });
+  }
+  return merged;
+}
+
+/**
+ * Find or create the Chrome folder that holds bookmarks recreated by a restore
+ */
+async function getRestoreFolderId(): Promise<string> {
+  const children = await chrome.bookmarks.getChildren(OTHER_BOOKMARKS_ID);
+  const existing = children.find(node => !node.url && node.title === RESTORE_FOLDER_TITLE);
+  if (existing) return existing.id;
+
+  const folder = await chrome.bookmarks.create({ parentId: OTHER_BOOKMARKS_ID, title: RESTORE_FOLDER_TITLE });
+  return folder.id;
+}
+
+/**
+ * Line backup bookmarks up with Chrome's bookmark tree
+ * Ids are kept when Chrome still has the same bookmark; otherwise the bookmark is
+ * matched by normalized URL (ids change after a profile reset or sync), and
+ * anything Chrome no longer has is recreated so its curation isn't lost
+ */
+async function matchBookmarksToChrome(
+  bookmarks: Bookmark[],
+  report: RestoreReport
+): Promise<{ bookmarks: Bookmark[]; idMap: Map<string, string> }> {
+  const nodes = await flattenBookmarkTree();
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const nodesByUrl = new Map<string, chrome.bookmarks.BookmarkTreeNode>();
+  for (const node of nodes) {
+    const key = normalizeURL(node.url!);
+    if (!nodesByUrl.has(key)) nodesByUrl.set(key, node);
+  }
+
+  const idMap = new Map<string, string>();
+  const claimed = new Set<string>();
+  const matched: Bookmark[] = [];
+  const unmatched: Bookmark[] = [];
+
+  // Exact id matches first, so URL matching can't steal a node that keeps its id
+  for (const bookmark of bookmarks) {
+    const node = nodesById.get(bookmark.id);
+    if (node && normalizeURL(node.url!) === normalizeURL(bookmark.url)) {
+      claimed.add(node.id);
+      idMap.set(bookmark.id, node.id);
+      matched.push(bookmark);
+    } else {
+      unmatched.push(bookmark);
+    }
+  }
+
+  let restoreFolderId: string | undefined;
+  for (const bookmark of unmatched) {
+    const node = nodesByUrl.get(normalizeURL(bookmark.url));
+    let newId: string;
+
+    if (node && !claimed.has(node.id)) {
+      newId = node.id;
+      report.remapped++;
+    } else {
+      restoreFolderId = restoreFolderId ?? await getRestoreFolderId();
+      const created = await chrome.bookmarks.create({
+        parentId: restoreFolderId,
+        title: bookmark.title,
+        url: bookmark.url
+      });
+      newId = created.id;
+      report.recreated++;
+    }
+
+    claimed.add(newId);
+    idMap.set(bookmark.id, newId);
+    matched.push({ ...bookmark, id: newId });
+  }
+
+  return { bookmarks: matched, idMap };
+}
+
+/**
+ * Load backup tables into SmartMarksDB for restoreBackup
+ */
+async function loadTables(tables: BackupTables, mode: RestoreMode, report: RestoreReport): Promise<void> {
+  // Chrome calls can't run inside an IndexedDB transaction, so match first
+  const { bookmarks, idMap } = await matchBookmarksToChrome(tables.bookmarks ?? [], report);
+  const visits = (tables.visitHistory ?? [])
+    .filter(visit => idMap.has(visit.bookmarkId))
+    .map(visit => ({ ...visit, bookmarkId: idMap.get(visit.bookmarkId)! }));
+  const proposals = (tables.archiveProposals ?? [])
+    .filter(proposal => idMap.has(proposal.bookmarkId))
+    .map(proposal => ({
+      ...proposal,
+      bookmarkId: idMap.get(proposal.bookmarkId)!,
+      duplicateOf: proposal.duplicateOf && idMap.get(proposal.duplicateOf)
+    }));
+
+  await db.transaction(
+    'rw',
+    [
+      db.bookmarks,
+      db.categories,
+      db.visitHistory,
+      db.settings,
+      db.candidateUrls,
+      db.naturalLanguageRules,
+      db.categorizationRules,
+      db.learnedAssociations,
+      db.archiveProposals
+    ],
+    async () => {
+      if (mode === 'replace') {
+        await Promise.all([
+          db.bookmarks.clear(),
+          db.categories.clear(),
+          db.visitHistory.clear(),
+          db.settings.clear(),
+          db.candidateUrls.clear(),
+          db.naturalLanguageRules.clear(),
+          db.categorizationRules.clear(),
+          db.learnedAssociations.clear(),
+          db.archiveProposals.clear()
+        ]);
+
+        await db.bookmarks.bulkPut(bookmarks);
+        await db.categories.bulkPut(tables.categories ?? []);
+        await db.visitHistory.bulkPut(visits);
+        await db.settings.bulkPut(tables.settings ?? []);
+        await db.candidateUrls.bulkPut(tables.candidateUrls ?? []);
+        await db.naturalLanguageRules.bulkPut(tables.naturalLanguageRules ?? []);
+        // Empty for backups upgraded from before rules were stored; initialize() seeds the defaults
+        await db.categorizationRules.bulkPut(tables.categorizationRules ?? []);
+        await db.learnedAssociations.bulkPut(tables.learnedAssociations ?? []);
+        await db.archiveProposals.bulkPut(proposals);
+
+        report.visits = visits.length;
+        report.candidates = tables.candidateUrls?.length ?? 0;
+        report.rules = (tables.naturalLanguageRules?.length ?? 0) +
+          (tables.categorizationRules ?? []).filter(r => r.source === 'user').length;
+      } else {
+        await db.bookmarks.bulkPut(bookmarks);
+        await db.categories.bulkPut(tables.categories ?? []);
+        await db.learnedAssociations.bulkPut(tables.learnedAssociations ?? []);
+        await db.archiveProposals.bulkPut(proposals);
+
+        // Auto-increment ids differ between profiles, so merge these by content
+        const seenVisits = new Set((await db.visitHistory.toArray()).map(v => `${v.bookmarkId}@${v.timestamp}`));
+        const newVisits = visits
+          .filter(v => !seenVisits.has(`${v.bookmarkId}@${v.timestamp}`))
+          .map(withoutId);
+        await db.visitHistory.bulkAdd(newVisits);
+        report.visits = newVisits.length;
+
+        for (const settings of tables.settings ?? []) {
+          await db.settings.put(mergeSettings(await db.settings.get(settings.userId!), settings));
+        }
+
+        const knownUrls = new Set((await db.candidateUrls.toArray()).map(c => c.normalizedUrl));
+        const newCandidates = (tables.candidateUrls ?? [])
+          .filter(c => !knownUrls.has(c.normalizedUrl))
+          .map(withoutId);
+        await db.candidateUrls.bulkAdd(newCandidates);
+        report.candidates = newCandidates.length;
+
+        const knownRules = new Set((await db.naturalLanguageRules.toArray()).map(r => r.rawText));
+        const newRules = (tables.naturalLanguageRules ?? [])
+          .filter(r => !knownRules.has(r.rawText))
+          .map(withoutId);
+        await db.naturalLanguageRules.bulkAdd(newRules);
+        report.rules = newRules.length;
+
+        // Local default rules stay as they are; user rules are added unless identical
+        const ruleKey = (r: CategorizationRuleRecord) => `${r.category}:${JSON.stringify(r.patterns)}`;
+        const knownCategorizationRules = new Set((await db.categorizationRules.toArray()).map(ruleKey));
+        const newCategorizationRules = (tables.categorizationRules ?? [])
+          .filter(r => r.source === 'user' && !knownCategorizationRules.has(ruleKey(r)))
+          .map(withoutId);
+        await db.categorizationRules.bulkAdd(newCategorizationRules);
+        report.rules += newCategorizationRules.length;
+      }
+
+      report.bookmarks = bookmarks.length;
+      report.categories = tables.categories?.length ?? 0;
+    }
+  );
+}
+
+/**
+ * Restore a backup
+ * replace: every backed-up table is cleared and loaded from the backup
+ * merge: backup rows win over local rows with the same key, other local rows are kept;
+ *   settings are merged field by field (see mergeSettings)
+ * Either way Chrome stays the source of truth for which bookmarks exist, so a
+ * reconciliation runs afterwards to pick up Chrome bookmarks the backup didn't have.
+ */
+export async function restoreBackup(backup: SmartMarksBackup, mode: RestoreMode): Promise<RestoreReport> {
+  await validateBackup(backup);
+
+  const report: RestoreReport = {
+    mode,
+    bookmarks: 0,
+    remapped: 0,
+    recreated: 0,
+    categories: 0,
+    visits: 0,
+    candidates: 0,
+    rules: 0
+  };
+
+  let tables = backup.tables;
+  if (backup.schemaVersion < db.verno) {
+    tables = await upgradeTables(tables, backup.schemaVersion);
+    report.upgradedFrom = backup.schemaVersion;
+  }
+
+  // Bookmarks recreated in Chrome are stored here, not by the onCreated listener
+  const urls = (tables.bookmarks ?? []).map(bookmark => bookmark.url);
+  await whileCreatingBookmarks(urls, () => loadTables(tables, mode, report));
+
+  // A replace may have emptied tables the app expects to be seeded
+  await db.initialize();
+  await reconcileBookmarks();
+  await db.recomputeCategoryCounts();
+
+  return report;
+}
@@ -0,0 +1,286 @@
+import { db, type Bookmark, type Category } from './db';
+import { buildCategoryTree, assignCategory, type CategoryTreeNode } from './categories';
+import { generateContentHash } from './categorization';
+import { normalizeTags } from './tags';
+import { moveBookmarkToFolder, getFolderPath } from './folders';
+import { logActivity, USER_ACTION, type ActivityOrigin } from './activityLog';
+import { applyArchivedState } from './archiveFolder';
+import { recordCorrection } from './learnedCategories';
+import { trainClassifierOn } from './classifier';
+import { whileCreatingBookmarks } from './ownBookmarks';
+
+/// <reference types="chrome"/>
+
+const BOOKMARK_BAR_ID = '1';
+const OTHER_BOOKMARKS_ID = '2';
+const EXPORT_FOLDER_TITLE = 'SmartMarks';
+
+// Fields the bookmark editor can change
+export interface BookmarkChanges {
+  title?: string;
+  url?: string;
+  category?: string;
+  tags?: string[];
+  parentId?: string; // Chrome folder to move the bookmark into
+  categoryLocked?: boolean;
+}
+
+// A bookmark created on behalf of another extension
+export interface NewBookmark {
+  url: string;
+  title?: string;
+  category?: string; // Auto-categorized when omitted
+  tags?: string[];
+  parentId?: string; // Chrome folder, "Other bookmarks" by default
+}
+
+/**
+ * Create a bookmark in Chrome and SmartMarksDB
+ * If the URL is already bookmarked, the existing bookmark gets the given
+ * category and tags instead of a duplicate being created
+ */
+export async function addBookmark(
+  input: NewBookmark,
+  origin: ActivityOrigin = USER_ACTION
+): Promise<{ bookmark: Bookmark; created: boolean }> {
+  if (input.category && !(await db.categories.get(input.category))) {
+    throw new Error(`Category ${input.category} not found`);
+  }
+
+  const existing = await db.bookmarks.where('url').equals(input.url).first();
+  if (existing) {
+    const changes = {
+      category: existing.categoryLocked ? existing.category : input.category ?? existing.category,
+      tags: normalizeTags([...existing.tags, ...(input.tags ?? [])])
+    };
+    await db.bookmarks.update(existing.id, changes);
+    await logActivity('update', existing, { ...existing, ...changes }, origin);
+    return { bookmark: { ...existing, ...changes }, created: false };
+  }
+
+  const parentId = input.parentId ?? OTHER_BOOKMARKS_ID;
+  const bookmark = await whileCreatingBookmarks([input.url], async () => {
+    const node = await chrome.bookmarks.create({ parentId, title: input.title ?? input.url, url: input.url });
+
+    const created: Bookmark = {
+      id: node.id,
+      url: input.url,
+      title: node.title,
+      category: input.category,
+      tags: normalizeTags(input.tags ?? []),
+      dateAdded: node.dateAdded ?? Date.now(),
+      visitCount: 0,
+      isPinned: false,
+      isArchived: false,
+      parentId,
+      index: node.index,
+      folderPath: await getFolderPath(parentId),
+      metadata: {
+        contentHash: generateContentHash(input.url)
+      }
+    };
+
+    if (!created.category) {
+      await assignCategory(created);
+    }
+
+    await db.bookmarks.add(created);
+    return created;
+  });
+  await logActivity('create', undefined, bookmark, origin);
+  return { bookmark, created: true };
+}
+
+/**
+ * Apply edits to a bookmark in SmartMarksDB and Chrome
+ * v1.3.0: A category picked by the user is recorded as manual, locked against
+ * automatic changes and learned for the bookmark's site, see learnedCategories.ts
+ */
+export async function updateBookmark(
+  bookmarkId: string,
+  changes: BookmarkChanges,
+  origin: ActivityOrigin = USER_ACTION
+): Promise<void> {
+  const bookmark = await db.bookmarks.get(bookmarkId);
+  if (!bookmark) {
+    throw new Error(`Bookmark ${bookmarkId} not found`);
+  }
+
+  const url = changes.url ?? bookmark.url;
+  const urlChanged = url !== bookmark.url;
+  const categoryChanged = changes.category !== undefined && changes.category !== bookmark.category;
+
+  // Chrome first: if it rejects the change, SmartMarksDB is left as it was
+  if (changes.title !== undefined || changes.url !== undefined) {
+    await chrome.bookmarks.update(bookmarkId, {
+      title: changes.title ?? bookmark.title,
+      url: changes.url ?? bookmark.url
+    });
+  }
+
+  // Move to a different Chrome folder if one was picked
+  if (changes.parentId && changes.parentId !== bookmark.parentId) {
+    await moveBookmarkToFolder(bookmarkId, changes.parentId);
+  }
+
+  await db.bookmarks.update(bookmarkId, {
+    title: changes.title ?? bookmark.title,
+    url,
+    category: changes.category ?? bookmark.category,
+    tags: changes.tags ? normalizeTags(changes.tags) : bookmark.tags,
+    // A new URL needs its page details fetched and its link checked again
+    metadata: urlChanged
+      ? { ...bookmark.metadata, contentHash: generateContentHash(url), fetchedAt: undefined }
+      : bookmark.metadata,
+    linkHealth: urlChanged ? undefined : bookmark.linkHealth,
+    categorization: categoryChanged
+      ? { method: 'manual', confidence: 1, categorizedAt: Date.now() }
+      : bookmark.categorization,
+    categoryLocked: changes.categoryLocked ?? (categoryChanged && origin.cause === 'user' ? true : bookmark.categoryLocked)
+  });
+
+  if (categoryChanged && origin.cause === 'user') {
+    await recordCorrection({ ...bookmark, url }, changes.category!);
+    await trainClassifierOn([bookmarkId]);
+  }
+
+  await logActivity('update', bookmark, (await db.bookmarks.get(bookmarkId))!, origin);
+}
+
+/**
+ * Delete bookmarks from Chrome and SmartMarksDB
+ * Returns the number of bookmarks deleted
+ */
+export async function deleteBookmarks(bookmarkIds: string[], origin: ActivityOrigin = USER_ACTION): Promise<number> {
+  let deleted = 0;
+  for (const id of bookmarkIds) {
+    const bookmark = await db.bookmarks.get(id);
+    await chrome.bookmarks.remove(id);
+    await db.bookmarks.delete(id);
+    if (bookmark) {
+      await logActivity('delete', bookmark, undefined, origin);
+    }
+    deleted++;
+  }
+  return deleted;
+}
+
+/**
+ * Drop bookmarks Chrome no longer has from SmartMarksDB, with their visits
+ * and archive proposals
+ */
+export async function forgetBookmarks(bookmarkIds: string[]): Promise<void> {
+  if (bookmarkIds.length === 0) return;
+
+  await db.transaction('rw', db.bookmarks, db.visitHistory, db.archiveProposals, async () => {
+    await db.bookmarks.bulkDelete(bookmarkIds);
+    await db.visitHistory.where('bookmarkId').anyOf(bookmarkIds).delete();
+    await db.archiveProposals.bulkDelete(bookmarkIds);
+  });
+}
+
+/**
+ * Archive or restore bookmarks
+ * In archive folder mode this also moves them in Chrome, see archiveFolder.ts
+ * Returns the number of bookmarks updated
+ */
+export async function setBookmarksArchived(
+  bookmarkIds: string[],
+  isArchived: boolean,
+  origin: ActivityOrigin = USER_ACTION
+): Promise<number> {
+  const bookmarks = (await db.bookmarks.bulkGet(bookmarkIds))
+    .filter((b): b is Bookmark => b !== undefined && b.isArchived !== isArchived);
+
+  for (const bookmark of bookmarks) {
+    await applyArchivedState(bookmark, isArchived);
+    await logActivity(isArchived ? 'archive' : 'restore', bookmark, (await db.bookmarks.get(bookmark.id))!, origin);
+  }
+  return bookmarks.length;
+}
+
+/**
+ * Record a visit to a bookmark opened from the popup
+ * Fallback tracking for when the history permission isn't granted
+ */
+export async function recordBookmarkVisit(bookmarkId: string): Promise<void> {
+  const bookmark = await db.bookmarks.get(bookmarkId);
+  if (!bookmark) return;
+
+  await db.bookmarks.update(bookmark.id, {
+    lastVisited: Date.now(),
+    visitCount: bookmark.visitCount + 1
+  });
+
+  await db.visitHistory.add({
+    bookmarkId: bookmark.id,
+    timestamp: Date.now(),
+    duration: 0
+  });
+}
+
+/**
+ * Organize active bookmarks into Chrome folders mirroring the category tree,
+ * under a "SmartMarks" folder on the bookmark bar
+ */
+export async function organizeIntoCategoryFolders(): Promise<{ moved: number; folders: number }> {
+  const categories = await db.categories.toArray();
+  const active = await db.bookmarks.filter(b => !b.isArchived).toArray();
+
+  const bookmarksByCategory = new Map<string, Bookmark[]>();
+  for (const bookmark of active) {
+    const category = bookmark.category || 'uncategorized';
+    if (!bookmarksByCategory.has(category)) bookmarksByCategory.set(category, []);
+    bookmarksByCategory.get(category)!.push(bookmark);
+  }
+
+  // Bookmarks pointing at a category id with no row still get a top-level folder
+  const known = new Set(categories.map(c => c.id));
+  const orphans: Category[] = Array.from(bookmarksByCategory.keys())
+    .filter(id => !known.has(id))
+    .map(id => ({ id, name: id, isDefault: false, bookmarkCount: 0, archivedCount: 0 }));
+  const tree = buildCategoryTree([...categories, ...orphans]);
+
+  // Get or create SmartMarks root folder
+  const barChildren = await chrome.bookmarks.getChildren(BOOKMARK_BAR_ID);
+  const rootFolder = barChildren.find(node => !node.url && node.title === EXPORT_FOLDER_TITLE)
+    ?? await chrome.bookmarks.create({ parentId: BOOKMARK_BAR_ID, title: EXPORT_FOLDER_TITLE });
+
+  const countSubtree = (node: CategoryTreeNode): number =>
+    (bookmarksByCategory.get(node.category.id)?.length ?? 0) +
+    node.children.reduce((sum, child) => sum + countSubtree(child), 0);
+
+  let moved = 0;
+  let folders = 0;
+
+  const exportNode = async (node: CategoryTreeNode, parentFolderId: string) => {
+    if (countSubtree(node) === 0) return;
+
+    // Create category folder
+    const categoryFolder = await chrome.bookmarks.create({
+      parentId: parentFolderId,
+      title: node.category.name
+    });
+    folders++;
+
+    for (const child of node.children) {
+      await exportNode(child, categoryFolder.id);
+    }
+
+    // Move bookmarks to category folder
+    for (const bookmark of bookmarksByCategory.get(node.category.id) ?? []) {
+      try {
+        await chrome.bookmarks.move(bookmark.id, { parentId: categoryFolder.id });
+        moved++;
+      } catch (error) {
+        console.warn(`Failed to move bookmark ${bookmark.id}:`, error);
+      }
+    }
+  };
+
+  for (const node of tree) {
+    await exportNode(node, rootFolder.id);
+  }
+
+  return { moved, folders };
+}
@@ -1,24 +1,18 @@
 import { db, type Bookmark, type CandidateUrl } from './db';
-import { categorizeBookmark, normalizeURL, generateContentHash } from './categorization';
+import { normalizeURL, generateContentHash } from './categorization';
+import { extractDomain, findMatchingDomainPattern } from './domainMatching';
+import { assignCategory } from './categories';
 import { shouldExcludeUrl } from './naturalLanguageParser';
 import { loadCheckpoint, saveCheckpoint, clearCheckpoint } from './checkpoints';
+import { logActivity, jobOrigin, type ActivityOrigin } from './activityLog';
+import { whileCreatingBookmarks } from './ownBookmarks';
+import { getFolderPath } from './folders';
+import { engagedVisitCount } from './visitDuration';
 
 /// <reference types="chrome"/>
 
 const CHUNK_SIZE = 100; // Process 100 candidates at a time
 
-/**
- * Extract domain from URL
- */
-function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.replace(/^www\./, '').toLowerCase();
-  } catch {
-    return '';
-  }
-}
-
 /**
  * Get time windows for visit counting
  */
@@ -36,7 +30,7 @@ function getTimeWindows() {
  * Track a URL that is not yet bookmarked
  * Called from trackVisit() in background.ts when URL is not bookmarked
  */
-export async function trackCandidateUrl(url: string, title?: string): Promise<void> {
+export async function trackCandidateUrl(url: string, title?: string, promote: boolean = true): Promise<void> {
   const normalizedUrl = normalizeURL(url);
   const domain = extractDomain(url);
 
@@ -55,7 +49,7 @@ export async function trackCandidateUrl(url: string, title?: string): Promise<vo
 
   // Check settings for excluded domains
   const settings = await db.settings.get('local');
-  if (settings?.excludedDomains.some(d => domain.includes(d))) {
+  if (findMatchingDomainPattern(url, settings?.excludedDomains)) {
     return;
   }
 
@@ -76,8 +70,10 @@ export async function trackCandidateUrl(url: string, title?: string): Promise<vo
         title: title && title.length > existing.title.length ? title : existing.title
       });
 
-      // Check if it now meets threshold
-      await checkAndPromoteCandidate(existing.id!);
+      // Check if it now meets threshold (otherwise recalculateCandidatesNextChunk() promotes it later)
+      if (promote) {
+        await checkAndPromoteCandidate(existing.id!);
+      }
     }
   } else {
     // Create new candidate
@@ -122,17 +118,25 @@ export async function checkAndPromoteCandidate(candidateId: number): Promise<boo
     candidate.quarterlyVisits >= quarterlyVisitThreshold;
 
   if (meetsThreshold) {
-    await promoteToBookmark(candidate);
+    await promoteToBookmark(candidate, { cause: 'rule', reason: describeVisits(candidate) });
     return true;
   }
 
   return false;
 }
 
+/**
+ * Why a candidate was auto-bookmarked, for the activity log
+ */
+function describeVisits(candidate: CandidateUrl): string {
+  return `Visited often (${candidate.weeklyVisits} this week, ${candidate.monthlyVisits} this month, ` +
+    `${candidate.quarterlyVisits} this quarter)`;
+}
+
 /**
  * Convert a candidate URL to a full bookmark
  */
-export async function promoteToBookmark(candidate: CandidateUrl): Promise<string | null> {
+export async function promoteToBookmark(candidate: CandidateUrl, origin: ActivityOrigin): Promise<string | null> {
   try {
     // Check if not already bookmarked
     const existingBookmark = await db.bookmarks
@@ -146,45 +150,41 @@ export async function promoteToBookmark(candidate: CandidateUrl): Promise<string
       return existingBookmark.id;
     }
 
-    // Create Chrome bookmark
-    const chromeBookmark = await chrome.bookmarks.create({
-      title: candidate.title,
-      url: candidate.url
-    });
-
-    // Create IndexedDB entry
-    const bookmark: Bookmark = {
-      id: chromeBookmark.id,
-      url: candidate.url,
-      title: candidate.title,
-      tags: ['auto-created'],
-      dateAdded: Date.now(),
-      lastVisited: candidate.lastSeen,
-      visitCount: candidate.visitCount,
-      isPinned: false,
-      isArchived: false,
-      metadata: {
-        contentHash: generateContentHash(candidate.url)
-      }
-    };
-
-    // Auto-categorize
-    const result = categorizeBookmark(bookmark);
-    if (result.confidence >= 0.5) {
-      bookmark.category = result.category;
-    }
-
-    await db.bookmarks.add(bookmark);
+    // Create Chrome bookmark; stored here rather than by the onCreated listener
+    const chromeBookmark = await whileCreatingBookmarks([candidate.url], async () => {
+      const node = await chrome.bookmarks.create({
+        title: candidate.title,
+        url: candidate.url
+      });
 
-    // Update category count
-    if (bookmark.category) {
-      const category = await db.categories.get(bookmark.category);
-      if (category) {
-        await db.categories.update(bookmark.category, {
-          bookmarkCount: category.bookmarkCount + 1
-        });
-      }
-    }
+      // Create IndexedDB entry
+      const bookmark: Bookmark = {
+        id: node.id,
+        url: candidate.url,
+        title: candidate.title,
+        tags: ['auto-created'],
+        dateAdded: node.dateAdded ?? Date.now(),
+        lastVisited: candidate.lastSeen,
+        visitCount: candidate.visitCount,
+        totalDuration: candidate.totalDuration,
+        bounceCount: candidate.bounceCount,
+        isPinned: false,
+        isArchived: false,
+        parentId: node.parentId,
+        index: node.index,
+        folderPath: node.parentId ? await getFolderPath(node.parentId) : [],
+        metadata: {
+          contentHash: generateContentHash(candidate.url)
+        }
+      };
+
+      // Auto-categorize
+      await assignCategory(bookmark);
+
+      await db.bookmarks.add(bookmark);
+      await logActivity('create', undefined, bookmark, origin);
+      return node;
+    });
 
     // Mark candidate as promoted
     await db.candidateUrls.update(candidate.id!, { status: 'promoted' });
@@ -218,13 +218,15 @@ export async function dismissCandidate(candidateId: number, reason?: string): Pr
 }
 
 /**
- * Recalculate time-windowed visit counts for all tracking candidates
- * Should be run periodically (e.g., hourly) to keep window counts accurate
+ * Recalculate time-windowed visit counts for the next chunk of tracking candidates
+ * Job step for the 'candidateRecalculation' job (see jobRunner.ts), run periodically
+ * (e.g., hourly) to keep window counts accurate; returns true while there is more to do
  */
-export async function recalculateCandidateWindowVisits(): Promise<number> {
+export async function recalculateCandidatesNextChunk(): Promise<boolean> {
   const settings = await db.settings.get('local');
   if (!settings || !settings.autoBookmarkEnabled) {
-    return 0;
+    await clearCheckpoint('candidateRecalculation');
+    return false;
   }
 
   // Load or create checkpoint
@@ -237,7 +239,7 @@ export async function recalculateCandidateWindowVisits(): Promise<number> {
       .count();
 
     if (trackingCount === 0) {
-      return 0;
+      return false;
     }
 
     checkpoint = {
@@ -245,7 +247,8 @@ export async function recalculateCandidateWindowVisits(): Promise<number> {
       startTime: Date.now(),
       totalItems: trackingCount,
       processedCount: 0,
-      status: 'running'
+      status: 'running',
+      stats: { promoted: 0 }
     };
     await saveCheckpoint(checkpoint);
   }
@@ -259,7 +262,7 @@ export async function recalculateCandidateWindowVisits(): Promise<number> {
     .limit(CHUNK_SIZE)
     .toArray();
 
-  let promotedCount = 0;
+  const stats = checkpoint.stats ?? { promoted: 0 };
 
   for (const candidate of candidates) {
     // Query visit history for this URL
@@ -271,9 +274,11 @@ export async function recalculateCandidateWindowVisits(): Promise<number> {
     const daysSinceLastVisit = (Date.now() - candidate.lastSeen) / (24 * 60 * 60 * 1000);
 
     // If visited recently, count it in the appropriate windows
-    const weeklyVisits = candidate.lastSeen >= oneWeekAgo ? Math.min(candidate.visitCount, 7) : 0;
-    const monthlyVisits = candidate.lastSeen >= oneMonthAgo ? Math.min(candidate.visitCount, 30) : 0;
-    const quarterlyVisits = candidate.lastSeen >= oneQuarterAgo ? candidate.visitCount : 0;
+    // v1.3.0: Bounced visits (a few seconds on the page) don't count towards promotion
+    const visits = engagedVisitCount(candidate);
+    const weeklyVisits = candidate.lastSeen >= oneWeekAgo ? Math.min(visits, 7) : 0;
+    const monthlyVisits = candidate.lastSeen >= oneMonthAgo ? Math.min(visits, 30) : 0;
+    const quarterlyVisits = candidate.lastSeen >= oneQuarterAgo ? visits : 0;
 
     // Update window counts
     await db.candidateUrls.update(candidate.id!, {
@@ -289,14 +294,10 @@ export async function recalculateCandidateWindowVisits(): Promise<number> {
       quarterlyVisits >= settings.quarterlyVisitThreshold;
 
     if (meetsThreshold) {
-      const promoted = await promoteToBookmark({
-        ...candidate,
-        weeklyVisits,
-        monthlyVisits,
-        quarterlyVisits
-      });
+      const updated = { ...candidate, weeklyVisits, monthlyVisits, quarterlyVisits };
+      const promoted = await promoteToBookmark(updated, jobOrigin(checkpoint, describeVisits(updated)));
       if (promoted) {
-        promotedCount++;
+        stats.promoted++;
       }
     }
 
@@ -309,6 +310,7 @@ export async function recalculateCandidateWindowVisits(): Promise<number> {
   }
 
   // Save checkpoint
+  checkpoint.stats = stats;
   await saveCheckpoint(checkpoint);
 
   // Check if more to process
@@ -318,15 +320,13 @@ export async function recalculateCandidateWindowVisits(): Promise<number> {
     .count();
 
   if (remainingCount > 0 && candidates.length === CHUNK_SIZE) {
-    // More to process, schedule next chunk
-    setTimeout(() => recalculateCandidateWindowVisits(), 100);
-  } else {
-    // All done
-    await clearCheckpoint('candidateRecalculation');
-    console.log(`Candidate recalculation complete, ${promotedCount} promoted to bookmarks`);
+    return true;
   }
 
-  return promotedCount;
+  // All done
+  await clearCheckpoint('candidateRecalculation');
+  console.log(`Candidate recalculation complete, ${stats.promoted} promoted to bookmarks`);
+  return false;
 }
 
 /**
@@ -0,0 +1,508 @@
+import { db, type Bookmark, type Category } from './db';
+import { categorizeBookmark, MIN_CONFIDENCE, type CategorizationResult, type CategorizationRule } from './categorization';
+import { loadCategorizationRules } from './categorizationRules';
+import { loadLearnedAssociations } from './learnedCategories';
+import { loadClassifier, classifyBookmark, trainClassifierOn } from './classifier';
+import { logActivity } from './activityLog';
+
+export interface CategoryInput {
+  name: string;
+  icon?: string;
+  color?: string;
+  keywords?: string[];
+  parentId?: string | null; // null or '' moves the category to the top level
+}
+
+export interface CategoryTreeNode {
+  category: Category;
+  children: CategoryTreeNode[];
+}
+
+const DEFAULT_COLOR = '#6b7280';
+const DEFAULT_ICON = '📁';
+
+/**
+ * Turn a category name into a stable id (e.g. "Home Lab" -> "home-lab")
+ */
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'category';
+}
+
+/**
+ * Normalize a keyword list: lowercase, trimmed, no empties or duplicates
+ */
+function normalizeKeywords(keywords: string[] = []): string[] {
+  return [...new Set(keywords.map(k => k.toLowerCase().trim()).filter(k => k.length > 0))];
+}
+
+/**
+ * Build the category forest; categories whose parent is missing become roots
+ */
+export function buildCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const nodes = new Map(categories.map(category => [category.id, { category, children: [] as CategoryTreeNode[] }]));
+  const roots: CategoryTreeNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.category.parentId ? nodes.get(node.category.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sortNodes = (list: CategoryTreeNode[]) => {
+    list.sort((a, b) => a.category.name.localeCompare(b.category.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
+
+/**
+ * Get a category id plus the ids of all its descendants
+ */
+export function getSubtreeIds(categories: Category[], rootId: string): string[] {
+  const ids = [rootId];
+  const seen = new Set(ids);
+
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !seen.has(category.id)) {
+        seen.add(category.id);
+        ids.push(category.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Get the chain of categories from the top level down to a category
+ */
+export function getCategoryPath(categories: Category[], categoryId: string): Category[] {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const path: Category[] = [];
+  let current = byId.get(categoryId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Format a category's full path for display (e.g. "Development › Frontend › React")
+ */
+export function formatCategoryPath(categories: Category[], categoryId: string): string {
+  const path = getCategoryPath(categories, categoryId);
+  return path.length > 0 ? path.map(c => c.name).join(' › ') : categoryId;
+}
+
+/**
+ * Load a category id plus the ids of all its descendants from the database
+ */
+export async function getCategorySubtreeIds(categoryId: string): Promise<string[]> {
+  return getSubtreeIds(await db.categories.toArray(), categoryId);
+}
+
+/**
+ * Validate a category name against its siblings
+ * The same name may appear under different parents (e.g. Work › Docs and Research › Docs)
+ */
+async function validateName(name: string, parentId: string | undefined, excludeId?: string): Promise<string> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Category name is required');
+  }
+
+  const existing = await db.categories.toArray();
+  const clash = existing.find(c =>
+    c.id !== excludeId &&
+    c.parentId === parentId &&
+    c.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (clash) {
+    throw new Error(`A category named "${clash.name}" already exists here`);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Validate a new parent for a category; returns undefined for the top level
+ */
+async function validateParent(parentId: string | null | undefined, categoryId?: string): Promise<string | undefined> {
+  if (!parentId) return undefined;
+
+  if (parentId === 'uncategorized' || categoryId === 'uncategorized') {
+    throw new Error('Uncategorized cannot be nested');
+  }
+
+  const categories = await db.categories.toArray();
+  if (!categories.some(c => c.id === parentId)) {
+    throw new Error(`Category ${parentId} not found`);
+  }
+  if (categoryId && getSubtreeIds(categories, categoryId).includes(parentId)) {
+    throw new Error('A category cannot be moved inside itself');
+  }
+
+  return parentId;
+}
+
+/**
+ * Create a user-defined category
+ */
+export async function createCategory(input: CategoryInput): Promise<Category> {
+  const parentId = await validateParent(input.parentId);
+  const name = await validateName(input.name, parentId);
+
+  // Generate a unique id from the name
+  const baseId = slugify(name);
+  let id = baseId;
+  for (let suffix = 2; await db.categories.get(id); suffix++) {
+    id = `${baseId}-${suffix}`;
+  }
+
+  const category: Category = {
+    id,
+    name,
+    icon: input.icon || DEFAULT_ICON,
+    color: input.color || DEFAULT_COLOR,
+    isDefault: false,
+    parentId,
+    keywords: normalizeKeywords(input.keywords),
+    bookmarkCount: 0,
+    archivedCount: 0
+  };
+
+  await db.categories.add(category);
+
+  // A new category reclaims an id that an earlier merge redirected elsewhere
+  await removeRedirect(id);
+
+  console.log(`Created category ${category.name} (${category.id})`);
+  return category;
+}
+
+/**
+ * Rename, recolor, move or otherwise edit a category
+ * Ids never change, so bookmarks keep pointing at the category
+ */
+export async function updateCategory(id: string, changes: Partial<CategoryInput>): Promise<Category> {
+  const category = await db.categories.get(id);
+  if (!category) {
+    throw new Error(`Category ${id} not found`);
+  }
+
+  const updates: Partial<Category> = {};
+  const parentId = changes.parentId !== undefined
+    ? await validateParent(changes.parentId, id)
+    : category.parentId;
+  if (changes.parentId !== undefined) updates.parentId = parentId;
+  if (changes.name !== undefined || parentId !== category.parentId) {
+    updates.name = await validateName(changes.name ?? category.name, parentId, id);
+  }
+  if (changes.icon !== undefined) updates.icon = changes.icon || DEFAULT_ICON;
+  if (changes.color !== undefined) updates.color = changes.color || DEFAULT_COLOR;
+  if (changes.keywords !== undefined) updates.keywords = normalizeKeywords(changes.keywords);
+
+  await db.categories.update(id, updates);
+  return { ...category, ...updates };
+}
+
+/**
+ * Move every bookmark from one category to another, logging each move
+ * The move counts as a manual categorization; moved to Uncategorized, bookmarks
+ * are left to automatic categorization again. Locks follow a merge, but a lock
+ * on a deleted category has nothing left to hold, so keepLocks is false there.
+ * Category counts follow through the bookmarks table hooks
+ */
+async function reassignBookmarks(fromId: string, toId: string, reason: string, keepLocks: boolean): Promise<string[]> {
+  const matchesFrom = (b: Bookmark) => fromId === 'uncategorized'
+    ? !b.category || b.category === 'uncategorized'
+    : b.category === fromId;
+
+  const changes: Partial<Bookmark> = {
+    category: toId,
+    categorization: toId === 'uncategorized'
+      ? undefined
+      : { method: 'manual', confidence: 1, categorizedAt: Date.now() },
+    ...(keepLocks ? {} : { categoryLocked: undefined })
+  };
+
+  const bookmarks = await db.bookmarks.filter(matchesFrom).toArray();
+  for (const bookmark of bookmarks) {
+    await db.bookmarks.update(bookmark.id, changes);
+    await logActivity('categorize', bookmark, { ...bookmark, ...changes }, { cause: 'user', reason });
+  }
+  return bookmarks.map(b => b.id);
+}
+
+// Everything merging or deleting a category writes, so either happens as a whole
+const categoryChangeTables = () => [
+  db.bookmarks,
+  db.categories,
+  db.naturalLanguageRules,
+  db.categorizationRules,
+  db.learnedAssociations,
+  db.settings,
+  db.activityLog
+];
+
+/**
+ * Point natural language rules at a different category (or drop it when toId is undefined)
+ */
+async function retargetPreferenceRules(fromId: string, toId?: string): Promise<void> {
+  await db.naturalLanguageRules
+    .filter(rule => !!rule.conditions.categories?.includes(fromId))
+    .modify(rule => {
+      const categories = rule.conditions.categories!.filter(c => c !== fromId);
+      if (toId && !categories.includes(toId)) {
+        categories.push(toId);
+      }
+      rule.conditions.categories = categories.length > 0 ? categories : undefined;
+    });
+}
+
+/**
+ * Point categorization rules and learned categories at a different category
+ * (or delete them when toId is undefined)
+ */
+async function retargetCategorizationRules(fromId: string, toId?: string): Promise<void> {
+  const rules = db.categorizationRules.where('category').equals(fromId);
+  const learned = db.learnedAssociations.where('category').equals(fromId);
+  if (toId) {
+    await rules.modify({ category: toId });
+    await learned.modify({ category: toId });
+  } else {
+    await rules.delete();
+    await learned.delete();
+  }
+}
+
+/**
+ * Move the direct children of a category under a new parent
+ */
+async function reparentChildren(fromId: string, toId: string | undefined): Promise<void> {
+  await db.categories
+    .where('parentId')
+    .equals(fromId)
+    .modify({ parentId: toId });
+}
+
+async function removeRedirect(id: string): Promise<void> {
+  const settings = await db.settings.get('local');
+  if (settings?.categoryRedirects?.[id]) {
+    const redirects = { ...settings.categoryRedirects };
+    delete redirects[id];
+    await db.settings.update('local', { categoryRedirects: redirects });
+  }
+}
+
+/**
+ * Merge one category into another
+ * Bookmarks and preference rules move to the target, and future rule matches
+ * for the source category are redirected to the target
+ */
+export async function mergeCategories(sourceId: string, targetId: string): Promise<number> {
+  if (sourceId === targetId) {
+    throw new Error('Cannot merge a category into itself');
+  }
+  if (sourceId === 'uncategorized') {
+    throw new Error('The Uncategorized category cannot be merged away');
+  }
+
+  const movedIds = await db.transaction('rw', categoryChangeTables(), async () => {
+    const [source, target] = await db.categories.bulkGet([sourceId, targetId]);
+    if (!source || !target) {
+      throw new Error('Both categories must exist to merge them');
+    }
+
+    const moved = await reassignBookmarks(
+      sourceId,
+      targetId,
+      `Category "${source.name}" merged into "${target.name}"`,
+      true
+    );
+    await retargetPreferenceRules(sourceId, targetId);
+    await retargetCategorizationRules(sourceId, targetId);
+    // Merging into a sub-category: the target takes the source's place in the tree
+    if ((await getCategorySubtreeIds(sourceId)).includes(targetId)) {
+      await db.categories.update(targetId, { parentId: source.parentId });
+    }
+    await reparentChildren(sourceId, targetId);
+
+    // Redirect the source (and anything already redirected to it) to the target
+    const settings = await db.settings.get('local');
+    const redirects = { ...(settings?.categoryRedirects ?? {}) };
+    for (const [from, to] of Object.entries(redirects)) {
+      if (to === sourceId) redirects[from] = targetId;
+    }
+    redirects[sourceId] = targetId;
+    await db.settings.update('local', { categoryRedirects: redirects });
+
+    await db.categories.delete(sourceId);
+
+    console.log(`Merged category ${source.name} into ${target.name}: ${moved.length} bookmarks moved`);
+    return moved;
+  });
+
+  // The classifier would otherwise keep suggesting the merged category
+  await trainClassifierOn(movedIds);
+  return movedIds.length;
+}
+
+/**
+ * Delete a category, reassigning its bookmarks (to Uncategorized by default)
+ * Sub-categories move up to the deleted category's parent
+ */
+export async function deleteCategory(id: string, reassignTo: string = 'uncategorized'): Promise<number> {
+  if (id === 'uncategorized') {
+    throw new Error('The Uncategorized category cannot be deleted');
+  }
+  if (id === reassignTo) {
+    throw new Error('Cannot reassign bookmarks to the category being deleted');
+  }
+
+  const movedIds = await db.transaction('rw', categoryChangeTables(), async () => {
+    const [category, target] = await db.categories.bulkGet([id, reassignTo]);
+    if (!category) {
+      throw new Error(`Category ${id} not found`);
+    }
+    if (!target) {
+      throw new Error(`Category ${reassignTo} not found`);
+    }
+
+    const moved = await reassignBookmarks(id, reassignTo, `Category "${category.name}" deleted`, false);
+    await retargetPreferenceRules(id);
+    await retargetCategorizationRules(id);
+    await reparentChildren(id, category.parentId);
+    await db.categories.delete(id);
+
+    console.log(`Deleted category ${category.name}: ${moved.length} bookmarks moved to ${target.name}`);
+    return moved;
+  });
+
+  // The classifier would otherwise keep suggesting the deleted category
+  await trainClassifierOn(movedIds);
+  return movedIds.length;
+}
+
+/**
+ * Get keyword lists per category id (category name always counts as a keyword)
+ */
+export async function loadCategoryKeywords(): Promise<Record<string, string[]>> {
+  const categories = await db.categories.toArray();
+  const keywords: Record<string, string[]> = {};
+
+  for (const category of categories) {
+    if (category.id === 'uncategorized') continue;
+    keywords[category.id] = normalizeKeywords([category.name, ...(category.keywords ?? [])]);
+  }
+
+  return keywords;
+}
+
+/**
+ * Create a categorizer that only assigns categories that currently exist
+ * Rule matches for merged categories follow the merge redirect; matches for
+ * deleted categories are dropped. When the rules are unsure, the local
+ * classifier (if turned on) gets a say. Loads categories, rules, learned
+ * categories and the classifier once, so it's cheap to call per bookmark in
+ * batch jobs. Pass rules to try out unsaved ones.
+ */
+export async function createCategoryAssigner(
+  rules?: CategorizationRule[]
+): Promise<(bookmark: Bookmark) => CategorizationResult> {
+  const categoryIds = new Set(await db.categories.toCollection().primaryKeys());
+  const settings = await db.settings.get('local');
+  const redirects = settings?.categoryRedirects ?? {};
+  const activeRules = rules ?? await loadCategorizationRules();
+  const learned = await loadLearnedAssociations();
+  const classifier = await loadClassifier();
+
+  return (bookmark: Bookmark) => {
+    let result = categorizeBookmark(bookmark, activeRules, learned);
+    if (classifier && result.confidence < MIN_CONFIDENCE) {
+      const guess = classifyBookmark(classifier, bookmark);
+      if (guess && guess.confidence > result.confidence) {
+        result = guess;
+      }
+    }
+    const category = redirects[result.category] ?? result.category;
+
+    if (!categoryIds.has(category)) {
+      return { category: 'uncategorized', confidence: 0, method: result.method };
+    }
+
+    if (result.confidence >= MIN_CONFIDENCE) {
+      bookmark.category = category;
+      bookmark.categorization = {
+        method: result.method,
+        confidence: result.confidence,
+        categorizedAt: Date.now(),
+        ruleId: result.ruleId,
+        signals: result.signals
+      };
+    }
+    return { ...result, category };
+  };
+}
+
+/**
+ * Activity log reason for an automatic categorization
+ */
+export function categorizationReason(result: CategorizationResult): string {
+  const reason = result.method === 'learned' ? 'Matched a category you picked for this site'
+    : result.method === 'ai' ? 'Similar to your other bookmarks in this category'
+    : 'Matched categorization rules';
+  return result.signals?.length ? `${reason}: ${result.signals.join(' + ')}` : reason;
+}
+
+/**
+ * Auto-categorize a single bookmark in place
+ * Sets bookmark.category and bookmark.categorization when the match is confident enough
+ */
+export async function assignCategory(bookmark: Bookmark): Promise<CategorizationResult> {
+  const assign = await createCategoryAssigner();
+  return assign(bookmark);
+}
+
+// A bookmark whose rule-based category would change under edited rules
+export interface RulePreviewChange {
+  bookmark: Bookmark;
+  from?: string; // Category the saved rules assign (undefined: no confident match)
+  to?: string;   // Category the edited rules assign
+}
+
+/**
+ * Compare what the saved and the edited rules assign to every active bookmark
+ * Nothing is written; bookmarks are categorized on copies
+ */
+export async function previewCategorizationRules(rules: CategorizationRule[]): Promise<RulePreviewChange[]> {
+  const current = await createCategoryAssigner();
+  const edited = await createCategoryAssigner(rules);
+  const bookmarks = await db.bookmarks.filter(b => !b.isArchived && !b.categoryLocked).toArray();
+
+  const assigned = (result: CategorizationResult) =>
+    result.confidence >= MIN_CONFIDENCE ? result.category : undefined;
+
+  const changes: RulePreviewChange[] = [];
+  for (const bookmark of bookmarks) {
+    const from = assigned(current({ ...bookmark }));
+    const to = assigned(edited({ ...bookmark }));
+    if (from !== to) {
+      changes.push({ bookmark, from, to });
+    }
+  }
+  return changes;
+}
@@ -1,4 +1,5 @@
-import type { Bookmark } from './db';
+import type { Bookmark, CategorizationInfo, LearnedAssociation } from './db';
+import { extractDomain, getSite, matchesDomainPattern, findMatchingDomainPattern } from './domainMatching';
 
 export interface CategorizationRule {
   category: string;
@@ -8,10 +9,16 @@ export interface CategorizationRule {
     titleKeywords?: string[];
   };
   confidence: number;
+  source?: 'default' | 'user'; // v1.3.0: User rules take precedence over the defaults
+  id?: number;                 // v1.3.0: Set for rules stored in the database
 }
 
-// Rule-based categorization patterns
-const rules: CategorizationRule[] = [
+// Matches below this confidence don't assign a category
+export const MIN_CONFIDENCE = 0.5;
+
+// Built-in categorization patterns
+// v1.3.0: Seeded into the categorizationRules table, where users can edit them
+export const DEFAULT_RULES: CategorizationRule[] = [
   // Development
   {
     category: 'development',
@@ -117,19 +124,36 @@ const rules: CategorizationRule[] = [
 export interface CategorizationResult {
   category: string;
   confidence: number;
-  method: 'rule' | 'ai' | 'manual';
+  method: 'rule' | 'ai' | 'manual' | 'learned';
+  // v1.3.0: Why, for "Why this category?"
+  ruleId?: number;
+  signals?: string[]; // e.g. "domain github.com", "title keyword 'api'"
 }
 
+const METHOD_LABELS: Record<CategorizationInfo['method'], string> = {
+  rule: 'Matched a categorization rule',
+  learned: 'Learned from your corrections',
+  ai: 'Similar to your other bookmarks in this category',
+  manual: 'Set by you'
+};
+
 /**
- * Extract domain from URL
+ * "Why this category?" for a bookmark, e.g.
+ * "Matched a categorization rule: domain github.com + title keyword 'api' (82%)"
  */
-function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.replace(/^www\./, '');
-  } catch {
-    return '';
+export function explainCategorization(bookmark: Pick<Bookmark, 'category' | 'categorization' | 'categoryLocked'>): string {
+  const info = bookmark.categorization;
+  let explanation: string;
+  if (info) {
+    explanation = METHOD_LABELS[info.method];
+    if (info.signals?.length) explanation += `: ${info.signals.join(' + ')}`;
+    if (info.method !== 'manual') explanation += ` (${Math.round(info.confidence * 100)}%)`;
+  } else if (!bookmark.category || bookmark.category === 'uncategorized') {
+    explanation = 'Nothing matched with enough confidence';
+  } else {
+    explanation = 'Categorized before SmartMarks recorded why';
   }
+  return bookmark.categoryLocked ? `${explanation}. Locked, so it won't be changed automatically` : explanation;
 }
 
 /**
@@ -140,19 +164,18 @@ function normalizeText(text: string): string {
 }
 
 /**
- * Check if text contains any of the keywords
+ * Find the first keyword the text contains
  */
-function containsKeywords(text: string, keywords?: string[]): boolean {
-  if (!keywords || keywords.length === 0) return false;
+function findKeyword(text: string, keywords?: string[]): string | undefined {
+  if (!keywords || keywords.length === 0) return undefined;
   const normalized = normalizeText(text);
-  return keywords.some(keyword => normalized.includes(normalizeText(keyword)));
+  return keywords.find(keyword => normalized.includes(normalizeText(keyword)));
 }
 
 /**
- * Categorize a bookmark using rule-based approach
+ * Find the best matching rule for a bookmark
  */
-export function categorizeBookmark(bookmark: Bookmark): CategorizationResult {
-  const domain = extractDomain(bookmark.url);
+function bestRuleMatch(bookmark: Bookmark, rules: CategorizationRule[]): CategorizationResult {
   const url = normalizeText(bookmark.url);
   const title = normalizeText(bookmark.title);
 
@@ -164,34 +187,39 @@ export function categorizeBookmark(bookmark: Bookmark): CategorizationResult {
 
   for (const rule of rules) {
     let score = 0;
-    let matches = 0;
+    const signals: string[] = [];
 
     // Check domain match (highest weight)
-    if (rule.patterns.domain?.some(d => domain.includes(d))) {
+    const matchedDomain = findMatchingDomainPattern(bookmark.url, rule.patterns.domain);
+    if (matchedDomain) {
       score += 0.6;
-      matches++;
+      signals.push(`domain ${matchedDomain}`);
     }
 
     // Check URL keywords
-    if (containsKeywords(url, rule.patterns.urlKeywords)) {
+    const urlKeyword = findKeyword(url, rule.patterns.urlKeywords);
+    if (urlKeyword) {
       score += 0.2;
-      matches++;
+      signals.push(`URL keyword '${urlKeyword}'`);
     }
 
     // Check title keywords
-    if (containsKeywords(title, rule.patterns.titleKeywords)) {
+    const titleKeyword = findKeyword(title, rule.patterns.titleKeywords);
+    if (titleKeyword) {
       score += 0.2;
-      matches++;
+      signals.push(`title keyword '${titleKeyword}'`);
     }
 
     // Calculate final confidence
-    const confidence = matches > 0 ? (score * rule.confidence) : 0;
+    const confidence = signals.length > 0 ? (score * rule.confidence) : 0;
 
     if (confidence > bestMatch.confidence) {
       bestMatch = {
         category: rule.category,
         confidence,
-        method: 'rule'
+        method: 'rule',
+        ruleId: rule.id,
+        signals
       };
     }
   }
@@ -199,17 +227,82 @@ export function categorizeBookmark(bookmark: Bookmark): CategorizationResult {
   return bestMatch;
 }
 
+/**
+ * Patterns a manual correction is learned under, most specific first:
+ * host plus first path segment (when the URL has one), then the whole site,
+ * which covers its subdomains (see domainMatching.ts)
+ */
+export function learnedPatternsFor(url: string): string[] {
+  const domain = extractDomain(url);
+  if (!domain) return [];
+
+  const site = getSite(url);
+  try {
+    const segment = new URL(url).pathname.split('/').find(s => s.length > 0)?.toLowerCase();
+    return segment ? [`${domain}/${segment}`, site] : [site];
+  } catch {
+    return [site];
+  }
+}
+
+// Path patterns before host patterns, deeper hosts before the sites they belong to
+const specificity = (pattern: string) => (pattern.includes('/') ? 1000 : 0) + pattern.length;
+
+/**
+ * Find the category learned for a bookmark's URL, if any
+ * The most specific matching association wins; repeated corrections raise confidence
+ */
+function learnedMatch(bookmark: Bookmark, learned: LearnedAssociation[]): CategorizationResult | undefined {
+  const association = learned
+    .filter(a => matchesDomainPattern(bookmark.url, a.pattern))
+    .sort((a, b) => specificity(b.pattern) - specificity(a.pattern))[0];
+  if (!association) return undefined;
+
+  const base = association.pattern.includes('/') ? 0.9 : 0.8;
+  return {
+    category: association.category,
+    confidence: Math.min(0.99, base + 0.05 * (association.corrections - 1)),
+    method: 'learned',
+    signals: [`site ${association.pattern}`]
+  };
+}
+
+/**
+ * Categorize a bookmark using rule-based approach
+ * v1.3.0: Categories learned from manual corrections are consulted first;
+ * then a confident match on a user rule wins over any default rule
+ */
+export function categorizeBookmark(
+  bookmark: Bookmark,
+  rules: CategorizationRule[] = DEFAULT_RULES,
+  learned: LearnedAssociation[] = []
+): CategorizationResult {
+  const learnedResult = learnedMatch(bookmark, learned);
+  if (learnedResult) {
+    return learnedResult;
+  }
+
+  const userMatch = bestRuleMatch(bookmark, rules.filter(rule => rule.source === 'user'));
+  if (userMatch.confidence >= MIN_CONFIDENCE) {
+    return userMatch;
+  }
+  return bestRuleMatch(bookmark, rules);
+}
+
 /**
  * Batch categorize multiple bookmarks
  */
-export function batchCategorize(bookmarks: Bookmark[]): Map<string, CategorizationResult> {
+export function batchCategorize(
+  bookmarks: Bookmark[],
+  rules: CategorizationRule[] = DEFAULT_RULES
+): Map<string, CategorizationResult> {
   const results = new Map<string, CategorizationResult>();
 
   for (const bookmark of bookmarks) {
     if (!bookmark.category || bookmark.category === 'uncategorized') {
-      const result = categorizeBookmark(bookmark);
+      const result = categorizeBookmark(bookmark, rules);
       // Only apply if confidence is high enough
-      if (result.confidence >= 0.5) {
+      if (result.confidence >= MIN_CONFIDENCE) {
         results.set(bookmark.id, result);
       }
     }
@@ -0,0 +1,93 @@
+import { db, type CategorizationRuleRecord } from './db';
+import { DEFAULT_RULES, type CategorizationRule } from './categorization';
+import { normalizeDomainPattern } from './domainMatching';
+
+// A rule as edited in Options; new rules are always user rules
+export interface CategorizationRuleInput {
+  id?: number;
+  category: string;
+  patterns: CategorizationRule['patterns'];
+  confidence: number;
+  isActive?: boolean;
+}
+
+/**
+ * Normalize a pattern list: lowercase, trimmed, no empties or duplicates
+ * Returns undefined for an empty list so the pattern is left out
+ */
+function normalizePatterns(values: string[] = []): string[] | undefined {
+  const normalized = [...new Set(values.map(v => v.toLowerCase().trim()).filter(v => v.length > 0))];
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * Load the active rules, user rules and defaults alike
+ * Falls back to the built-in rules until the table has been seeded
+ */
+export async function loadCategorizationRules(): Promise<CategorizationRule[]> {
+  if (await db.categorizationRules.count() === 0) {
+    return DEFAULT_RULES;
+  }
+  return db.categorizationRules.filter(rule => rule.isActive).toArray();
+}
+
+/**
+ * Create or update a rule
+ */
+export async function saveCategorizationRule(input: CategorizationRuleInput): Promise<CategorizationRuleRecord> {
+  if (!(await db.categories.get(input.category))) {
+    throw new Error(`Category ${input.category} not found`);
+  }
+  if (!(input.confidence > 0 && input.confidence <= 1)) {
+    throw new Error('Confidence must be between 0 and 1');
+  }
+
+  const patterns = {
+    domain: normalizePatterns(input.patterns.domain?.map(normalizeDomainPattern)),
+    urlKeywords: normalizePatterns(input.patterns.urlKeywords),
+    titleKeywords: normalizePatterns(input.patterns.titleKeywords)
+  };
+  if (!patterns.domain && !patterns.urlKeywords && !patterns.titleKeywords) {
+    throw new Error('A rule needs at least one domain or keyword');
+  }
+
+  const existing = input.id !== undefined ? await db.categorizationRules.get(input.id) : undefined;
+  if (input.id !== undefined && !existing) {
+    throw new Error(`Rule ${input.id} not found`);
+  }
+
+  const rule: CategorizationRuleRecord = {
+    ...existing,
+    category: input.category,
+    patterns,
+    confidence: input.confidence,
+    source: existing?.source ?? 'user',
+    isActive: input.isActive ?? existing?.isActive ?? true
+  };
+  rule.id = await db.categorizationRules.put(rule);
+  return rule;
+}
+
+/**
+ * Delete a user rule; default rules can only be turned off
+ */
+export async function deleteCategorizationRule(ruleId: number): Promise<void> {
+  const rule = await db.categorizationRules.get(ruleId);
+  if (!rule) {
+    throw new Error(`Rule ${ruleId} not found`);
+  }
+  if (rule.source === 'default') {
+    throw new Error('Default rules can be turned off but not deleted');
+  }
+  await db.categorizationRules.delete(ruleId);
+}
+
+/**
+ * Put the default rules back the way they shipped; user rules are kept
+ */
+export async function resetDefaultRules(): Promise<void> {
+  await db.transaction('rw', db.categorizationRules, async () => {
+    await db.categorizationRules.where('source').equals('default').delete();
+    await db.addDefaultRules();
+  });
+}
@@ -1,6 +1,7 @@
 import { db, type ProcessingCheckpoint } from './db';
 
 type JobType = ProcessingCheckpoint['jobType'];
+type CheckpointStatus = ProcessingCheckpoint['status'];
 
 /**
  * Load active checkpoint for a specific job type
@@ -8,11 +9,21 @@ type JobType = ProcessingCheckpoint['jobType'];
  */
 export async function loadCheckpoint(
   jobType: JobType
+): Promise<ProcessingCheckpoint | null> {
+  return await loadLatestCheckpoint(jobType, ['running']);
+}
+
+/**
+ * Load the most recent checkpoint of a job type that has one of the given statuses
+ */
+export async function loadLatestCheckpoint(
+  jobType: JobType,
+  statuses: CheckpointStatus[]
 ): Promise<ProcessingCheckpoint | null> {
   const checkpoints = await db.checkpoints
     .where('jobType')
     .equals(jobType)
-    .and(checkpoint => checkpoint.status === 'running')
+    .and(checkpoint => statuses.includes(checkpoint.status))
     .toArray();
 
   // Return the most recent if multiple exist (shouldn't happen)
@@ -30,7 +41,15 @@ export async function loadCheckpoint(
 export async function saveCheckpoint(checkpoint: ProcessingCheckpoint): Promise<void> {
   if (checkpoint.id) {
     // Update existing checkpoint
-    await db.checkpoints.update(checkpoint.id, checkpoint);
+    await db.transaction('rw', db.checkpoints, async () => {
+      // A pause or cancel from the job monitor wins over a job step saving its progress
+      const stored = await db.checkpoints.get(checkpoint.id!);
+      if (stored && (stored.status === 'paused' || stored.status === 'cancelled')) {
+        await db.checkpoints.put({ ...checkpoint, status: stored.status });
+      } else {
+        await db.checkpoints.put(checkpoint);
+      }
+    });
   } else {
     // Create new checkpoint
     await db.checkpoints.add(checkpoint);
@@ -59,19 +78,43 @@ export async function clearCheckpoint(
 }
 
 /**
- * Mark checkpoint as failed
+ * Record a failed attempt at a job
+ * The checkpoint stays running (so the job resumes where it stopped) until more
+ * than maxRetries attempts have failed, then it is marked as failed.
+ * Returns the updated checkpoint, or null if the job had no checkpoint yet
  */
 export async function failCheckpoint(
   jobType: JobType,
-  error: string
-): Promise<void> {
+  error: string,
+  maxRetries: number = 0
+): Promise<ProcessingCheckpoint | null> {
   const checkpoint = await loadCheckpoint(jobType);
-  if (checkpoint?.id) {
-    await db.checkpoints.update(checkpoint.id, {
-      status: 'failed'
-    });
+  if (!checkpoint?.id) return null;
+
+  const retryCount = (checkpoint.retryCount ?? 0) + 1;
+  const status = retryCount > maxRetries ? 'failed' : 'running';
+  await db.checkpoints.update(checkpoint.id, {
+    status,
+    retryCount,
+    lastError: error
+  });
+
+  if (status === 'failed') {
     console.error(`Checkpoint ${jobType} failed:`, error);
   }
+
+  return { ...checkpoint, status, retryCount, lastError: error };
+}
+
+/**
+ * Get the job types that have a running checkpoint
+ * Paused jobs are left alone until they are resumed
+ */
+export async function getRunningJobTypes(): Promise<JobType[]> {
+  const running = await db.checkpoints
+    .filter(checkpoint => checkpoint.status === 'running')
+    .toArray();
+  return [...new Set(running.map(checkpoint => checkpoint.jobType))];
 }
 
 /**
@@ -91,7 +134,7 @@ export async function cleanupOldCheckpoints(): Promise<void> {
   const oldCheckpoints = await db.checkpoints
     .filter(checkpoint =>
       checkpoint.startTime < sevenDaysAgo &&
-      (checkpoint.status === 'completed' || checkpoint.status === 'failed')
+      (checkpoint.status === 'completed' || checkpoint.status === 'failed' || checkpoint.status === 'cancelled')
     )
     .toArray();
 
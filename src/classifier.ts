@@ -0,0 +1,209 @@
+import { db, type Bookmark, type ClassifierModel, type ClassifierSample } from './db';
+import type { CategorizationResult } from './categorization';
+import { extractDomain } from './domainMatching';
+
+// The classifier only guesses once it has seen enough of the user's own bookmarks
+const MIN_TRAINING_BOOKMARKS = 20;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'you', 'your', 'from', 'that', 'this', 'are', 'was', 'how', 'what', 'why',
+  'www', 'com', 'org', 'net', 'http', 'https', 'html', 'htm', 'php', 'aspx', 'index', 'page'
+]);
+
+function emptyModel(): ClassifierModel {
+  return { id: 'local', docCount: 0, categories: {}, vocabulary: {}, vocabularySize: 0 };
+}
+
+function words(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 3 && word.length <= 30 && !/^\d+$/.test(word) && !STOP_WORDS.has(word));
+}
+
+/**
+ * Words the classifier looks at: title, URL path, page description and keywords,
+ * plus the site itself as a "site:" token
+ * Each word counts once per bookmark; short texts classify better that way
+ */
+export function tokenizeBookmark(bookmark: Bookmark): string[] {
+  let path = '';
+  try {
+    path = new URL(bookmark.url).pathname;
+  } catch {
+    // Not a URL; the title still says something
+  }
+  const domain = extractDomain(bookmark.url);
+
+  return [...new Set([
+    ...(domain ? [`site:${domain}`] : []),
+    ...words(bookmark.title),
+    ...words(path),
+    ...words(bookmark.metadata.description),
+    ...(bookmark.metadata.keywords ?? []).flatMap(words)
+  ])];
+}
+
+/**
+ * Add (sign 1) or take out (sign -1) one bookmark's contribution to the model
+ */
+function applySample(model: ClassifierModel, sample: ClassifierSample, sign: 1 | -1): void {
+  const stats = model.categories[sample.category] ??= { docCount: 0, tokenCount: 0, tokens: {} };
+
+  model.docCount += sign;
+  stats.docCount += sign;
+  stats.tokenCount += sign * sample.tokens.length;
+
+  for (const token of sample.tokens) {
+    stats.tokens[token] = (stats.tokens[token] ?? 0) + sign;
+    if (stats.tokens[token] <= 0) delete stats.tokens[token];
+
+    const before = model.vocabulary[token] ?? 0;
+    model.vocabulary[token] = before + sign;
+    if (before === 0) model.vocabularySize++;
+    if (model.vocabulary[token] <= 0) {
+      delete model.vocabulary[token];
+      model.vocabularySize--;
+    }
+  }
+
+  if (stats.docCount <= 0) delete model.categories[sample.category];
+}
+
+/**
+ * The sample a bookmark should contribute, or undefined if it shouldn't train the classifier
+ * Uncategorized bookmarks teach nothing, and the classifier's own guesses would
+ * only reinforce its mistakes
+ */
+function sampleFor(bookmark: Bookmark): ClassifierSample | undefined {
+  if (!bookmark.category || bookmark.category === 'uncategorized') return undefined;
+  if (bookmark.categorization?.method === 'ai') return undefined;
+  return { bookmarkId: bookmark.id, category: bookmark.category, tokens: tokenizeBookmark(bookmark) };
+}
+
+const sameSample = (a: ClassifierSample, b: ClassifierSample) =>
+  a.category === b.category && a.tokens.join(' ') === b.tokens.join(' ');
+
+/**
+ * Bring the model up to date with the given bookmarks
+ * Only bookmarks whose category or words changed since the last training touch
+ * the model, so retraining is cheap. Ids without a bookmark are taken out.
+ */
+async function updateModel(bookmarkIds: string[], bookmarks: Array<Bookmark | undefined>): Promise<number> {
+  return db.transaction('rw', db.classifier, db.classifierSamples, async () => {
+    const model = await db.classifier.get('local') ?? emptyModel();
+    const previous = await db.classifierSamples.bulkGet(bookmarkIds);
+
+    const changed: ClassifierSample[] = [];
+    const removed: string[] = [];
+    bookmarkIds.forEach((bookmarkId, i) => {
+      const old = previous[i];
+      const sample = bookmarks[i] ? sampleFor(bookmarks[i]!) : undefined;
+      if (old && sample && sameSample(old, sample)) return;
+
+      if (old) applySample(model, old, -1);
+      if (sample) {
+        applySample(model, sample, 1);
+        changed.push(sample);
+      } else if (old) {
+        removed.push(bookmarkId);
+      }
+    });
+
+    if (changed.length === 0 && removed.length === 0) return 0;
+
+    await db.classifierSamples.bulkPut(changed);
+    await db.classifierSamples.bulkDelete(removed);
+    await db.classifier.put(model);
+    return changed.length + removed.length;
+  });
+}
+
+/**
+ * Retrain the classifier on every bookmark
+ * Returns the number of bookmarks that changed the model
+ */
+export async function trainClassifier(): Promise<number> {
+  const settings = await db.settings.get('local');
+  if (!settings?.enableAI) return 0;
+
+  const bookmarks = await db.bookmarks.toArray();
+  const trainedIds = await db.classifierSamples.toCollection().primaryKeys();
+  const current = new Set(bookmarks.map(b => b.id));
+  const gone = trainedIds.filter(id => !current.has(id));
+
+  return updateModel(
+    [...bookmarks.map(b => b.id), ...gone],
+    [...bookmarks, ...gone.map(() => undefined)]
+  );
+}
+
+/**
+ * Retrain the classifier on a few bookmarks, e.g. after the user recategorized them
+ */
+export async function trainClassifierOn(bookmarkIds: string[]): Promise<void> {
+  const settings = await db.settings.get('local');
+  if (!settings?.enableAI) return;
+
+  await updateModel(bookmarkIds, await db.bookmarks.bulkGet(bookmarkIds));
+}
+
+/**
+ * Load the classifier, or undefined when it is turned off or hasn't seen enough bookmarks
+ */
+export async function loadClassifier(): Promise<ClassifierModel | undefined> {
+  const settings = await db.settings.get('local');
+  if (!settings?.enableAI) return undefined;
+
+  const model = await db.classifier.get('local');
+  if (!model || model.docCount < MIN_TRAINING_BOOKMARKS || Object.keys(model.categories).length < 2) {
+    return undefined;
+  }
+  return model;
+}
+
+/**
+ * Guess a bookmark's category with naive Bayes over its words
+ * Naive Bayes is overconfident because it treats words as independent, so the
+ * evidence is tempered by the square root of the word count, and confidence is
+ * shrunk when only a few words were known to the model.
+ */
+export function classifyBookmark(model: ClassifierModel, bookmark: Bookmark): CategorizationResult | undefined {
+  const tokens = tokenizeBookmark(bookmark).filter(token => model.vocabulary[token]);
+  if (tokens.length === 0) return undefined;
+
+  // Laplace-smoothed log P(token | category)
+  const tokenLikelihood = (stats: ClassifierModel['categories'][string], token: string) =>
+    Math.log(((stats.tokens[token] ?? 0) + 1) / (stats.tokenCount + model.vocabularySize));
+
+  const scores = Object.entries(model.categories).map(([category, stats]) => {
+    const logPrior = Math.log(stats.docCount / model.docCount);
+    const logLikelihood = tokens.reduce((sum, token) => sum + tokenLikelihood(stats, token), 0);
+    return { category, stats, score: logPrior + logLikelihood / Math.sqrt(tokens.length) };
+  });
+
+  // Softmax, shifted by the best score to stay in floating point range
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const total = scores.reduce((sum, s) => sum + Math.exp(s.score - best.score), 0);
+  const posterior = 1 / total;
+
+  // The words that point to the winning category most strongly, for "Why this category?"
+  const others = scores.filter(s => s !== best);
+  const telling = tokens
+    .map(token => ({
+      token,
+      lift: tokenLikelihood(best.stats, token) - Math.max(...others.map(s => tokenLikelihood(s.stats, token)))
+    }))
+    .filter(t => t.lift > 0)
+    .sort((a, b) => b.lift - a.lift)
+    .slice(0, 3)
+    .map(({ token }) => token.startsWith('site:') ? `site ${token.slice(5)}` : `word '${token}'`);
+
+  return {
+    category: best.category,
+    confidence: posterior * (tokens.length / (tokens.length + 2)),
+    method: 'ai',
+    signals: telling.length > 0 ? telling : undefined
+  };
+}
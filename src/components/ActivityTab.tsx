@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import type { ActivityEntry } from '../db';
+import { getRecentActivity } from '../activityLog';
+import type { JobType } from '../jobRunner';
+import { sendRequest, errorMessage } from '../rpc';
+
+interface ActivityTabProps {
+  onRefresh: () => Promise<void>;
+}
+
+const ACTION_LABELS: Record<ActivityEntry['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  categorize: 'Categorized',
+  archive: 'Archived',
+  restore: 'Restored',
+  delete: 'Deleted',
+  undo: 'Undid change to'
+};
+
+const JOB_LABELS: Record<JobType, string> = {
+  categorize: 'Categorization',
+  archive: 'Auto-archive',
+  metadata: 'Page details',
+  historyAnalysis: 'History analysis',
+  candidateRecalculation: 'Auto-bookmark candidates',
+  import: 'Import',
+  linkCheck: 'Link check'
+};
+
+function describeCause(entry: ActivityEntry): string {
+  const source = entry.cause === 'job'
+    ? entry.jobType ? JOB_LABELS[entry.jobType] : 'Job'
+    : entry.cause === 'rule' ? 'Automatic rule' : 'You';
+  return entry.reason ? `${source} · ${entry.reason}` : source;
+}
+
+/**
+ * Activity tab: recent changes to bookmarks, with undo for single changes or whole job runs
+ */
+export function ActivityTab({ onRefresh }: ActivityTabProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [undoneIds, setUndoneIds] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  async function loadActivity() {
+    const activity = await getRecentActivity();
+    setEntries(activity.entries);
+    setUndoneIds(new Set(activity.undoneIds));
+  }
+
+  useEffect(() => {
+    getRecentActivity().then(activity => {
+      setEntries(activity.entries);
+      setUndoneIds(new Set(activity.undoneIds));
+    }).catch(error => {
+      console.error('Failed to load activity:', error);
+    });
+  }, []);
+
+  async function handleUndo(entry: ActivityEntry) {
+    setBusy(true);
+    try {
+      await sendRequest('UNDO_ACTIVITY', { entryId: entry.id! });
+      await loadActivity();
+      await onRefresh();
+    } catch (error) {
+      console.error('Undo failed:', error);
+      alert('Failed to undo: ' + errorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleUndoRun(runId: string) {
+    if (!confirm('Undo every change made by this job run?')) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { undone, skipped } = await sendRequest('UNDO_JOB_RUN', { runId });
+      alert(skipped > 0
+        ? `Undid ${undone} change(s). ${skipped} change(s) were skipped because they were edited or undone since.`
+        : `Undid ${undone} change(s).`);
+      await loadActivity();
+      await onRefresh();
+    } catch (error) {
+      console.error('Undo run failed:', error);
+      alert('Failed to undo job run: ' + errorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Activity</h2>
+        <button
+          onClick={() => loadActivity()}
+          className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Every change SmartMarks makes to your bookmarks, newest first. Changes are kept for 180 days.
+      </p>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-[40rem] overflow-y-auto">
+          {entries.map((entry) => {
+            const undone = undoneIds.has(entry.id!);
+            return (
+              <div
+                key={entry.id}
+                className={`flex items-center space-x-3 p-3 rounded border border-gray-200 ${undone ? 'bg-gray-50' : 'bg-white'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm text-gray-900 truncate ${undone ? 'line-through text-gray-500' : ''}`}>
+                    <span className="font-medium">{ACTION_LABELS[entry.action]}</span> {entry.title}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {new Date(entry.timestamp).toLocaleString()} · {describeCause(entry)}
+                  </p>
+                </div>
+                {undone && (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-gray-200 text-gray-700">Undone</span>
+                )}
+                {!undone && entry.action !== 'undo' && (
+                  <button
+                    onClick={() => handleUndo(entry)}
+                    disabled={busy}
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Undo
+                  </button>
+                )}
+                {entry.runId && (
+                  <button
+                    onClick={() => handleUndoRun(entry.runId!)}
+                    disabled={busy}
+                    className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Undo Run
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import type { Category } from '../db';
+import { buildCategoryTree, formatCategoryPath, getSubtreeIds, type CategoryTreeNode } from '../categories';
+import { sendRequest, errorMessage } from '../rpc';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  onRefresh: () => Promise<void>;
+}
+
+interface CategoryFormState {
+  name: string;
+  icon: string;
+  color: string;
+  keywords: string;
+  parentId: string;
+}
+
+const EMPTY_FORM: CategoryFormState = { name: '', icon: '📁', color: '#6b7280', keywords: '', parentId: '' };
+
+function toFormState(category: Category): CategoryFormState {
+  return {
+    name: category.name,
+    icon: category.icon ?? EMPTY_FORM.icon,
+    color: category.color ?? EMPTY_FORM.color,
+    keywords: (category.keywords ?? []).join(', '),
+    parentId: category.parentId ?? ''
+  };
+}
+
+/**
+ * Flatten the category tree depth-first, keeping each category's depth for indentation
+ */
+function flattenTree(nodes: CategoryTreeNode[], depth = 0): Array<{ category: Category; depth: number }> {
+  return nodes.flatMap(node => [
+    { category: node.category, depth },
+    ...flattenTree(node.children, depth + 1)
+  ]);
+}
+
+function parseKeywords(text: string): string[] {
+  return text.split(',').map(k => k.trim()).filter(k => k.length > 0);
+}
+
+/**
+ * Categories tab: create, edit, nest, merge and delete categories
+ * All changes go through the background so bookmarks, rules and counts stay consistent
+ */
+export function CategoryManager({ categories, onRefresh }: CategoryManagerProps) {
+  const [form, setForm] = useState<CategoryFormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState('uncategorized');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rows = flattenTree(buildCategoryTree(categories));
+  const sorted = rows.map(row => row.category);
+
+  // A category can't be nested under itself or one of its descendants
+  const excludedParents = new Set(editingId ? getSubtreeIds(categories, editingId) : []);
+  const parentOptions = sorted.filter(c => c.id !== 'uncategorized' && !excludedParents.has(c.id));
+
+  async function send(request: () => Promise<unknown>, failure: string): Promise<boolean> {
+    setIsSaving(true);
+    try {
+      await request();
+      await onRefresh();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(`${failure}: ` + errorMessage(error));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const category = {
+      name: form.name,
+      icon: form.icon,
+      color: form.color,
+      keywords: parseKeywords(form.keywords),
+      parentId: form.parentId || null
+    };
+
+    const saved = editingId
+      ? await send(() => sendRequest('UPDATE_CATEGORY', { categoryId: editingId, changes: category }), 'Failed to update category')
+      : await send(() => sendRequest('CREATE_CATEGORY', { category }), 'Failed to create category');
+
+    if (saved) {
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    }
+  }
+
+  function handleEdit(category: Category) {
+    setEditingId(category.id);
+    setForm(toFormState(category));
+    setMergingId(null);
+  }
+
+  function handleCancelEdit() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  }
+
+  function startMerge(category: Category) {
+    setMergingId(category.id);
+    setTargetId(sorted.find(c => c.id !== category.id)?.id ?? 'uncategorized');
+  }
+
+  async function handleMerge(source: Category) {
+    const target = categories.find(c => c.id === targetId);
+    if (!target || !confirm(`Merge "${source.name}" into "${target.name}"? ${source.bookmarkCount + source.archivedCount} bookmark(s) will move and "${source.name}" will be removed.`)) {
+      return;
+    }
+
+    if (await send(() => sendRequest('MERGE_CATEGORIES', { sourceId: source.id, targetId }), 'Failed to merge categories')) {
+      setMergingId(null);
+    }
+  }
+
+  async function handleDelete(category: Category) {
+    const total = category.bookmarkCount + category.archivedCount;
+    const hasChildren = categories.some(c => c.parentId === category.id);
+    if (!confirm(
+      `Delete "${category.name}"?` +
+      (total > 0 ? ` Its ${total} bookmark(s) will move to Uncategorized.` : '') +
+      (hasChildren ? ' Its sub-categories will move up one level.' : '')
+    )) {
+      return;
+    }
+
+    await send(() => sendRequest('DELETE_CATEGORY', { categoryId: category.id }), 'Failed to delete category');
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Create / Edit Form */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          {editingId ? 'Edit Category' : 'New Category'}
+        </h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-6">
+            <div className="sm:col-span-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+              <input
+                type="text"
+                value={form.icon}
+                onChange={(e) => setForm({ ...form, icon: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="sm:col-span-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div className="sm:col-span-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+              <input
+                type="color"
+                value={form.color}
+                onChange={(e) => setForm({ ...form, color: e.target.value })}
+                className="w-full h-10 border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+          {editingId !== 'uncategorized' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Parent</label>
+              <select
+                value={form.parentId}
+                onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">None (top level)</option>
+                {parentOptions.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {formatCategoryPath(categories, c.id)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Keywords</label>
+            <input
+              type="text"
+              value={form.keywords}
+              onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+              placeholder="recipes, cooking, baking"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Comma-separated words used by search hints and your natural language preferences
+            </p>
+          </div>
+          <div className="flex justify-end space-x-3">
+            {editingId && (
+              <button
+                type="button"
+                onClick={handleCancelEdit}
+                className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+            >
+              {editingId ? 'Save Changes' : 'Add Category'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Category List */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Categories</h2>
+        <div className="space-y-2">
+          {rows.map(({ category, depth }) => (
+            <div
+              key={category.id}
+              className="border border-gray-200 rounded-lg p-3"
+              style={{ marginLeft: `${depth * 1.5}rem` }}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span
+                    className="h-3 w-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: category.color }}
+                  />
+                  <span className="text-lg">{category.icon}</span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {category.name}
+                      {category.isDefault && <span className="ml-2 text-xs text-gray-400">built-in</span>}
+                    </p>
+                    {category.keywords && category.keywords.length > 0 && (
+                      <p className="text-xs text-gray-500 truncate">{category.keywords.join(', ')}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <span className="text-sm text-gray-500">
+                    {category.bookmarkCount}
+                    {category.archivedCount > 0 && ` (+${category.archivedCount} archived)`}
+                  </span>
+                  <button
+                    onClick={() => handleEdit(category)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  {category.id !== 'uncategorized' && (
+                    <>
+                      <button
+                        onClick={() => startMerge(category)}
+                        className="text-sm text-purple-600 hover:text-purple-800"
+                      >
+                        Merge
+                      </button>
+                      <button
+                        onClick={() => handleDelete(category)}
+                        disabled={isSaving}
+                        className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {mergingId === category.id && (
+                <div className="mt-3 pt-3 border-t border-gray-200 flex items-center space-x-3">
+                  <span className="text-sm text-gray-700">Merge into</span>
+                  <select
+                    value={targetId}
+                    onChange={(e) => setTargetId(e.target.value)}
+                    className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {sorted.filter(c => c.id !== category.id).map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.icon} {formatCategoryPath(categories, c.id)}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleMerge(category)}
+                    disabled={isSaving}
+                    className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => setMergingId(null)}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import type { ExternalClient, ExternalScope } from '../db';
+
+interface ExternalAccessProps {
+  clients: ExternalClient[];
+  onChange: (clients: ExternalClient[]) => Promise<void>;
+}
+
+const SCOPE_LABELS: Record<ExternalScope, string> = {
+  search: 'Search bookmarks',
+  add: 'Add bookmarks',
+  tags: 'List tags',
+  candidates: 'See frequently visited sites'
+};
+
+const SCOPES = Object.keys(SCOPE_LABELS) as ExternalScope[];
+
+// Chrome extension IDs are 32 characters from a-p
+const EXTENSION_ID_PATTERN = /^[a-p]{32}$/;
+
+/**
+ * Allowlist of other extensions that may use the external API,
+ * each with its own permission scopes
+ */
+export function ExternalAccess({ clients, onChange }: ExternalAccessProps) {
+  const [extensionId, setExtensionId] = useState('');
+  const [name, setName] = useState('');
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const id = extensionId.trim();
+
+    if (!EXTENSION_ID_PATTERN.test(id)) {
+      alert('Extension IDs are 32 lowercase letters (a to p). You can find them on chrome://extensions.');
+      return;
+    }
+    if (clients.some(c => c.extensionId === id)) {
+      alert('That extension is already on the list.');
+      return;
+    }
+
+    // New callers start with read-only search access
+    await onChange([...clients, { extensionId: id, name: name.trim() || id, scopes: ['search'], addedAt: Date.now() }]);
+    setExtensionId('');
+    setName('');
+  }
+
+  async function toggleScope(client: ExternalClient, scope: ExternalScope) {
+    const scopes = client.scopes.includes(scope)
+      ? client.scopes.filter(s => s !== scope)
+      : [...client.scopes, scope];
+    await onChange(clients.map(c => c.extensionId === client.extensionId ? { ...c, scopes } : c));
+  }
+
+  async function handleRemove(client: ExternalClient) {
+    if (!confirm(`Stop ${client.name} from using SmartMarks?`)) return;
+    await onChange(clients.filter(c => c.extensionId !== client.extensionId));
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-2">External Access</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Let launchers and other extensions search and add SmartMarks bookmarks. Only extensions listed here can connect.
+      </p>
+
+      {clients.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {clients.map((client) => (
+            <div key={client.extensionId} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{client.name}</p>
+                  <p className="text-xs text-gray-500 font-mono">{client.extensionId}</p>
+                </div>
+                <button
+                  onClick={() => handleRemove(client)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-4">
+                {SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={client.scopes.includes(scope)}
+                      onChange={() => toggleScope(client, scope)}
+                      className="mr-2"
+                    />
+                    {SCOPE_LABELS[scope]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={extensionId}
+          onChange={(e) => setExtensionId(e.target.value)}
+          placeholder="Extension ID"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Allow
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  JOB_MONITOR_PORT,
+  type JobProgress,
+  type JobMonitorUpdate,
+  type JobControlRequest
+} from '../jobMonitor';
+import type { JobType } from '../jobRunner';
+
+const JOB_LABELS: Record<JobType, string> = {
+  categorize: 'Categorizing bookmarks',
+  archive: 'Archiving inactive bookmarks',
+  metadata: 'Fetching page details',
+  historyAnalysis: 'Analyzing browsing history',
+  candidateRecalculation: 'Updating auto-bookmark candidates',
+  import: 'Processing imported bookmarks',
+  linkCheck: 'Checking links'
+};
+
+const RECONNECT_DELAY_MS = 1000;
+
+function formatEta(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `about ${Math.max(seconds, 1)}s left`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `about ${minutes} min left`;
+  return `about ${Math.round(minutes / 60)} h left`;
+}
+
+/**
+ * Background job monitor: live progress, ETA and errors of chunked jobs
+ * Streams updates over a long-lived port, reconnecting when the service worker restarts
+ */
+export function JobMonitor() {
+  const [jobs, setJobs] = useState<JobProgress[]>([]);
+  const portRef = useRef<chrome.runtime.Port | null>(null);
+
+  useEffect(() => {
+    let closed = false;
+    let reconnectTimer: number | undefined;
+
+    function connect() {
+      const port = chrome.runtime.connect({ name: JOB_MONITOR_PORT });
+      portRef.current = port;
+
+      port.onMessage.addListener((update: JobMonitorUpdate) => {
+        if (update.type === 'JOBS') {
+          setJobs(update.jobs);
+        } else if (update.type === 'JOB_CONTROL_FAILED') {
+          alert(`${JOB_LABELS[update.jobType]}: ${update.error}`);
+        }
+      });
+
+      port.onDisconnect.addListener(() => {
+        portRef.current = null;
+        if (!closed) {
+          reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      });
+    }
+
+    connect();
+
+    return () => {
+      closed = true;
+      window.clearTimeout(reconnectTimer);
+      portRef.current?.disconnect();
+    };
+  }, []);
+
+  function sendControl(action: JobControlRequest['action'], jobType: JobType) {
+    const request: JobControlRequest = { action, jobType };
+    portRef.current?.postMessage(request);
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">Background Jobs</h2>
+      {jobs.length === 0 ? (
+        <p className="text-sm text-gray-500">No jobs running.</p>
+      ) : (
+        <div className="space-y-4">
+          {jobs.map((job) => (
+            <div key={job.jobType} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{JOB_LABELS[job.jobType]}</p>
+                  <p className="text-xs text-gray-500">
+                    {job.isCollecting
+                      ? `Waiting for the import to finish (${job.totalItems} so far)`
+                      : `${job.processedCount} / ${job.totalItems}`}
+                    {job.status === 'paused' && ' · Paused'}
+                    {job.status === 'failed' && ' · Failed'}
+                    {job.etaMs !== undefined && ` · ${formatEta(job.etaMs)}`}
+                    {job.status === 'running' && job.retryCount > 0 && ` · Retry ${job.retryCount}`}
+                  </p>
+                </div>
+                {!job.isCollecting && (
+                  <div className="flex items-center space-x-3">
+                    {job.status === 'running' && (
+                      <button
+                        onClick={() => sendControl('pause', job.jobType)}
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        Pause
+                      </button>
+                    )}
+                    {(job.status === 'paused' || job.status === 'failed') && (
+                      <button
+                        onClick={() => sendControl('resume', job.jobType)}
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        {job.status === 'failed' ? 'Retry' : 'Resume'}
+                      </button>
+                    )}
+                    {job.status !== 'failed' && (
+                      <button
+                        onClick={() => sendControl('cancel', job.jobType)}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${
+                    job.status === 'failed' ? 'bg-red-500' : job.status === 'paused' ? 'bg-yellow-500' : 'bg-blue-600'
+                  }`}
+                  style={{ width: `${job.percent}%` }}
+                />
+              </div>
+              {job.lastError && (
+                <p className="text-xs text-red-600 mt-2">{job.lastError}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
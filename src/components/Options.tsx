@@ -1,7 +1,24 @@
 import { useState, useEffect, useCallback } from 'react';
-import { db, type Bookmark, type Settings } from '../db';
+import { db, type Bookmark, type Category, type Settings, type LinkHealth } from '../db';
 import { HistoryPermissionToggle } from './PermissionDialog';
-import { hasPermission } from '../utils';
+import { CategoryManager } from './CategoryManager';
+import { RuleEditor } from './RuleEditor';
+import { hasPermission, requestHostAccess, isWebUrl } from '../utils';
+import type { ReconciliationReport } from '../reconciliation';
+import type { RestoreMode } from '../backup';
+import { sendRequest, errorMessage } from '../rpc';
+import { listFolders, formatFolderPath, type BookmarkFolder } from '../folders';
+import { buildCategoryTree, formatCategoryPath, type CategoryTreeNode } from '../categories';
+import { getAllTags, normalizeTag, normalizeTags } from '../tags';
+import { TagsTab } from './TagsTab';
+import { findSameDomainBookmarks } from '../learnedCategories';
+import { explainCategorization } from '../categorization';
+import { getSite } from '../domainMatching';
+import { ActivityTab } from './ActivityTab';
+import { JobMonitor } from './JobMonitor';
+import { ExternalAccess } from './ExternalAccess';
+import { DEFAULT_METADATA_REFRESH_DAYS } from '../metadataBackfill';
+import { getPendingProposals, type PendingProposal } from '../archiveReview';
 
 /**
  * SmartMarks Options/Dashboard Component
@@ -14,7 +31,7 @@ export function Options() {
     archived: 0,
     byCategory: [] as Array<{ category: string; count: number; bookmarks: Bookmark[] }>
   });
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'cleanup' | 'settings'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'categories' | 'tags' | 'cleanup' | 'activity' | 'settings'>('dashboard');
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [editingBookmark, setEditingBookmark] = useState<Bookmark | null>(null);
   const [exportingToChrome, setExportingToChrome] = useState(false);
@@ -33,6 +50,20 @@ export function Options() {
     activeBookmarks: number;
   } | null>(null);
 
+  // v1.3.0: Chrome reconciliation
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [reconciliationReport, setReconciliationReport] = useState<ReconciliationReport | null>(null);
+
+  // v1.3.0: User-defined categories
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  // v1.3.0: Backup and restore
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // v1.3.0: bookmarks.html import
+  const [isImportingHtml, setIsImportingHtml] = useState(false);
+
   // Load settings and check permissions
   const loadSettings = useCallback(async () => {
     const s = await db.settings.get('local');
@@ -40,35 +71,35 @@ export function Options() {
     if (s?.naturalLanguagePreferences) {
       setPreferencesText(s.naturalLanguagePreferences);
       // Parse and display current rules
-      const response = await chrome.runtime.sendMessage({
-        type: 'PARSE_PREFERENCES',
-        text: s.naturalLanguagePreferences
-      });
-      if (response?.success) {
-        setInterpretedRules(response.rules);
-      }
+      const { rules } = await sendRequest('PARSE_PREFERENCES', { text: s.naturalLanguagePreferences });
+      setInterpretedRules(rules);
     }
 
     const historyPerm = await hasPermission('history');
     setHasHistoryPermission(historyPerm);
 
     if (historyPerm) {
-      const statsResponse = await chrome.runtime.sendMessage({ type: 'GET_ANALYSIS_STATS' });
-      if (statsResponse?.success) {
-        setAnalysisStats(statsResponse.stats);
-      }
+      const { stats } = await sendRequest('GET_ANALYSIS_STATS');
+      setAnalysisStats(stats);
     }
   }, []);
 
+  const loadReconciliationReport = useCallback(async () => {
+    const { report } = await sendRequest('GET_RECONCILIATION_REPORT');
+    setReconciliationReport(report);
+  }, []);
+
   useEffect(() => {
     loadStats();
     loadSettings();
-  }, [loadSettings]);
+    loadReconciliationReport();
+  }, [loadSettings, loadReconciliationReport]);
 
   async function loadStats() {
     const allBookmarks = await db.bookmarks.toArray();
+    setCategories(await db.categories.toArray());
     const activeBookmarks = allBookmarks.filter(b => !b.isArchived);
-    const archivedBookmarks = allBookmarks.filter(b => !b.isArchived);
+    const archivedBookmarks = allBookmarks.filter(b => b.isArchived);
 
     // Group by category with bookmarks
     const categoryMap = new Map<string, Bookmark[]>();
@@ -108,24 +139,40 @@ export function Options() {
 
   async function handleSaveBookmark(updatedBookmark: Bookmark) {
     try {
-      // Update in IndexedDB
-      await db.bookmarks.update(updatedBookmark.id, {
-        title: updatedBookmark.title,
-        url: updatedBookmark.url,
-        category: updatedBookmark.category
-      });
-
-      // Update in Chrome bookmarks
-      await chrome.bookmarks.update(updatedBookmark.id, {
-        title: updatedBookmark.title,
-        url: updatedBookmark.url
+      // Updates SmartMarksDB and Chrome, moving folders if a different one was picked
+      await sendRequest('UPDATE_BOOKMARK', {
+        bookmarkId: updatedBookmark.id,
+        changes: {
+          title: updatedBookmark.title,
+          url: updatedBookmark.url,
+          category: updatedBookmark.category,
+          categoryLocked: updatedBookmark.categoryLocked,
+          tags: updatedBookmark.tags,
+          parentId: updatedBookmark.parentId
+        }
       });
 
       setEditingBookmark(null);
+      if (updatedBookmark.category && updatedBookmark.category !== editingBookmark?.category) {
+        await offerCategoryForDomain(updatedBookmark);
+      }
       await loadStats();
     } catch (error) {
       console.error('Failed to update bookmark:', error);
-      alert('Failed to update bookmark. See console for details.');
+      alert('Failed to update bookmark: ' + errorMessage(error));
+    }
+  }
+
+  // v1.3.0: After a manual correction, offer the same category for the rest of the site
+  async function offerCategoryForDomain(bookmark: Bookmark) {
+    if (bookmark.category === 'uncategorized') return;
+
+    const others = await findSameDomainBookmarks(bookmark);
+    const category = categories.find(c => c.id === bookmark.category);
+    if (others.length === 0 || !category) return;
+
+    if (confirm(`Also move ${others.length} other bookmark(s) from ${getSite(bookmark.url)} to "${category.name}"?`)) {
+      await sendRequest('APPLY_CATEGORY_TO_DOMAIN', { bookmarkId: bookmark.id });
     }
   }
 
@@ -135,17 +182,14 @@ export function Options() {
     }
 
     try {
-      // Delete from Chrome bookmarks
-      await chrome.bookmarks.remove(bookmarkId);
-
-      // Delete from IndexedDB
-      await db.bookmarks.delete(bookmarkId);
+      // Delete from Chrome bookmarks and IndexedDB
+      await sendRequest('DELETE_BOOKMARKS', { bookmarkIds: [bookmarkId] });
 
       setEditingBookmark(null);
       await loadStats();
     } catch (error) {
       console.error('Failed to delete bookmark:', error);
-      alert('Failed to delete bookmark. See console for details.');
+      alert('Failed to delete bookmark: ' + errorMessage(error));
     }
   }
 
@@ -153,20 +197,134 @@ export function Options() {
   async function handleGroupTabs() {
     setIsGroupingTabs(true);
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GROUP_TABS' });
-      if (response?.success) {
-        alert(`Grouped ${response.result.grouped} tabs into ${response.result.groups.length} groups. ${response.result.ungrouped} tabs could not be grouped.`);
-      } else {
-        alert('Failed to group tabs: ' + (response?.error || 'Unknown error'));
-      }
+      const { result } = await sendRequest('GROUP_TABS');
+      alert(`Grouped ${result.grouped} tabs into ${result.groups.length} groups. ${result.ungrouped} tabs could not be grouped.`);
     } catch (error) {
       console.error('Tab grouping error:', error);
-      alert('Failed to group tabs. See console for details.');
+      alert('Failed to group tabs: ' + errorMessage(error));
     } finally {
       setIsGroupingTabs(false);
     }
   }
 
+  // v1.3.0: Reconcile SmartMarks with Chrome's bookmark tree
+  async function handleReconcile() {
+    setIsReconciling(true);
+    try {
+      const { report } = await sendRequest('RECONCILE_BOOKMARKS');
+      setReconciliationReport(report);
+      await loadStats();
+    } catch (error) {
+      console.error('Reconciliation error:', error);
+      alert('Failed to sync with Chrome: ' + errorMessage(error));
+    } finally {
+      setIsReconciling(false);
+    }
+  }
+
+  // v1.3.0: Recompute category counts from scratch
+  async function handleRepairCounts() {
+    try {
+      await sendRequest('REPAIR_CATEGORY_COUNTS');
+      alert('Category counts rebuilt.');
+      await loadStats();
+    } catch (error) {
+      console.error('Category count repair error:', error);
+      alert('Failed to rebuild category counts: ' + errorMessage(error));
+    }
+  }
+
+  // v1.3.0: Download a full backup of SmartMarksDB as JSON
+  async function handleDownloadBackup() {
+    try {
+      const { backup } = await sendRequest('CREATE_BACKUP');
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `smartmarks-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Backup error:', error);
+      alert('Failed to create backup: ' + errorMessage(error));
+    }
+  }
+
+  // v1.3.0: Restore SmartMarksDB from a backup file
+  async function handleRestoreFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const warning = restoreMode === 'replace'
+      ? 'Replace ALL SmartMarks data (categories, tags, history, rules) with this backup?'
+      : 'Merge this backup into your SmartMarks data? Backed-up entries overwrite matching local ones.';
+    if (!confirm(warning)) return;
+
+    setIsRestoring(true);
+    try {
+      const backup = JSON.parse(await file.text());
+      const { report } = await sendRequest('RESTORE_BACKUP', { backup, mode: restoreMode });
+      alert(
+        `Restored ${report.bookmarks} bookmarks (${report.remapped} matched by URL, ${report.recreated} recreated in Chrome), ` +
+        `${report.categories} categories and ${report.visits} visits.` +
+        (report.upgradedFrom ? ` Backup was upgraded from schema version ${report.upgradedFrom}.` : '')
+      );
+      await loadStats();
+      await loadSettings();
+    } catch (error) {
+      console.error('Restore error:', error);
+      alert(error instanceof SyntaxError
+        ? 'Failed to restore backup. Is this a SmartMarks backup file?'
+        : 'Failed to restore backup: ' + errorMessage(error));
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  // v1.3.0: Download bookmarks as a Netscape bookmark file
+  async function handleExportHtml() {
+    try {
+      const { html } = await sendRequest('EXPORT_BOOKMARKS_HTML');
+
+      const blob = new Blob([html], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `smartmarks-bookmarks-${new Date().toISOString().slice(0, 10)}.html`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Bookmark file export error:', error);
+      alert('Failed to export bookmarks: ' + errorMessage(error));
+    }
+  }
+
+  // v1.3.0: Import a Netscape bookmark file
+  async function handleImportHtml(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsImportingHtml(true);
+    try {
+      const { report } = await sendRequest('IMPORT_BOOKMARKS_HTML', { html: await file.text() });
+      alert(
+        `Imported ${report.imported} of ${report.total} bookmarks into "Other bookmarks › Imported bookmarks". ` +
+        `${report.duplicates} duplicates and ${report.skipped} unsupported links skipped, ` +
+        `${report.categoriesCreated} categories created.`
+      );
+      await loadStats();
+    } catch (error) {
+      console.error('Bookmark file import error:', error);
+      alert('Failed to import bookmarks: ' + errorMessage(error));
+    } finally {
+      setIsImportingHtml(false);
+    }
+  }
+
   // v1.2.0: History analysis handler
   async function handleAnalyzeHistory() {
     if (!hasHistoryPermission) {
@@ -176,17 +334,16 @@ export function Options() {
 
     setIsAnalyzingHistory(true);
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'ANALYZE_HISTORY' });
-      if (response?.success) {
-        alert(`History analysis started. ${response.result.bookmarksCreated} bookmarks created so far, ${response.result.candidatesAdded} candidates added.`);
-        await loadSettings();
-        await loadStats();
-      } else {
-        alert('Failed to analyze history: ' + (response?.error || 'Unknown error'));
-      }
+      const startedAt = Date.now();
+      const { stats } = await sendRequest('ANALYZE_HISTORY');
+      alert((stats.analyzedAt ?? 0) >= startedAt
+        ? `History analysis complete. ${stats.candidateCount} sites are being tracked as candidates.`
+        : 'History analysis started. It continues in the background.');
+      await loadSettings();
+      await loadStats();
     } catch (error) {
       console.error('History analysis error:', error);
-      alert('Failed to analyze history. See console for details.');
+      alert('Failed to analyze history: ' + errorMessage(error));
     } finally {
       setIsAnalyzingHistory(false);
     }
@@ -195,38 +352,30 @@ export function Options() {
   // v1.2.0: Save natural language preferences
   async function handleSavePreferences() {
     try {
-      // Save to settings
-      await db.settings.update('local', {
-        naturalLanguagePreferences: preferencesText
-      });
-
-      // Parse and save rules
-      const response = await chrome.runtime.sendMessage({
-        type: 'SAVE_PREFERENCES',
-        text: preferencesText
-      });
-
-      if (response?.success) {
-        setInterpretedRules(response.rules);
-        alert('Preferences saved successfully!');
-      } else {
-        alert('Failed to save preferences: ' + (response?.error || 'Unknown error'));
-      }
+      // Save the text, parse it and save the rules
+      const { rules } = await sendRequest('SAVE_PREFERENCES', { text: preferencesText });
+      setInterpretedRules(rules);
+      alert('Preferences saved successfully!');
     } catch (error) {
       console.error('Failed to save preferences:', error);
-      alert('Failed to save preferences. See console for details.');
+      alert('Failed to save preferences: ' + errorMessage(error));
     }
   }
 
   // v1.2.0: Preview rules without saving
   async function handlePreviewRules() {
-    const response = await chrome.runtime.sendMessage({
-      type: 'PARSE_PREFERENCES',
-      text: preferencesText
-    });
+    const { rules } = await sendRequest('PARSE_PREFERENCES', { text: preferencesText });
+    setInterpretedRules(rules);
+  }
 
-    if (response?.success) {
-      setInterpretedRules(response.rules);
+  // v1.3.0: Save settings through the background, which applies them right away
+  async function updateSettings(changes: Partial<Settings>) {
+    try {
+      const { settings: saved } = await sendRequest('UPDATE_SETTINGS', { changes });
+      setSettings(saved);
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      alert('Failed to save settings: ' + errorMessage(error));
     }
   }
 
@@ -234,9 +383,7 @@ export function Options() {
   async function handleToggleAutoBookmark() {
     if (!settings) return;
 
-    const newValue = !settings.autoBookmarkEnabled;
-    await db.settings.update('local', { autoBookmarkEnabled: newValue });
-    setSettings({ ...settings, autoBookmarkEnabled: newValue });
+    await updateSettings({ autoBookmarkEnabled: !settings.autoBookmarkEnabled });
   }
 
   async function exportToChromeBookmarkFolders() {
@@ -247,54 +394,27 @@ export function Options() {
     setExportingToChrome(true);
 
     try {
-      // Get or create SmartMarks root folder
-      const rootFolders = await chrome.bookmarks.getTree();
-      const bookmarkBar = rootFolders[0]?.children?.find(n => n.id === '1'); // Bookmark bar
-
-      if (!bookmarkBar) {
-        throw new Error('Bookmark bar not found');
-      }
-
-      // Check if SmartMarks folder exists
-      let smartMarksFolder = bookmarkBar.children?.find(n => n.title === 'SmartMarks');
-
-      if (!smartMarksFolder) {
-        // Create SmartMarks root folder
-        smartMarksFolder = await chrome.bookmarks.create({
-          parentId: bookmarkBar.id,
-          title: 'SmartMarks'
-        });
-      }
-
-      // Create category folders and move bookmarks
-      for (const { category, bookmarks } of stats.byCategory) {
-        // Create category folder
-        const categoryFolder = await chrome.bookmarks.create({
-          parentId: smartMarksFolder.id,
-          title: category
-        });
-
-        // Move bookmarks to category folder
-        for (const bookmark of bookmarks) {
-          try {
-            await chrome.bookmarks.move(bookmark.id, {
-              parentId: categoryFolder.id
-            });
-          } catch (error) {
-            console.warn(`Failed to move bookmark ${bookmark.id}:`, error);
-          }
-        }
-      }
-
-      alert(`Successfully organized ${stats.active} bookmarks into ${stats.byCategory.length} category folders under "SmartMarks"!`);
+      // v1.3.0: Nested category folders matching the category tree
+      const { moved, folders } = await sendRequest('ORGANIZE_INTO_FOLDERS');
+      alert(`Successfully organized ${moved} bookmarks into ${folders} category folders under "SmartMarks"!`);
     } catch (error) {
       console.error('Export failed:', error);
-      alert('Failed to export to Chrome folders. See console for details.');
+      alert('Failed to export to Chrome folders: ' + errorMessage(error));
     } finally {
       setExportingToChrome(false);
     }
   }
 
+  // v1.3.0: Category tree for the dashboard; bookmarks pointing at
+  // a category id with no row still get a top-level entry
+  const bookmarksByCategory = new Map(stats.byCategory.map(c => [c.category, c.bookmarks]));
+  const categoryTree = buildCategoryTree([
+    ...categories,
+    ...stats.byCategory
+      .filter(c => !categories.some(category => category.id === c.category))
+      .map(c => ({ id: c.category, name: c.category, isDefault: false, bookmarkCount: c.count, archivedCount: 0 }))
+  ]);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -316,6 +436,26 @@ export function Options() {
             >
               Dashboard
             </button>
+            <button
+              onClick={() => setActiveTab('categories')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'categories'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Categories
+            </button>
+            <button
+              onClick={() => setActiveTab('tags')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'tags'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Tags
+            </button>
             <button
               onClick={() => setActiveTab('cleanup')}
               className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -326,6 +466,16 @@ export function Options() {
             >
               Cleanup & Archive
             </button>
+            <button
+              onClick={() => setActiveTab('activity')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'activity'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Activity
+            </button>
             <button
               onClick={() => setActiveTab('settings')}
               className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -436,90 +586,65 @@ export function Options() {
                   Organize bookmarks into category folders
                 </p>
               </div>
+
+              {/* v1.3.0: Sync with Chrome Button */}
+              <div>
+                <button
+                  onClick={handleReconcile}
+                  disabled={isReconciling}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <svg className="mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  {isReconciling ? 'Syncing...' : 'Sync with Chrome'}
+                </button>
+                <p className="text-sm text-gray-500 mt-2">
+                  {reconciliationReport
+                    ? `Last sync ${new Date(reconciliationReport.completedAt).toLocaleString()}: ${reconciliationReport.added} added, ${reconciliationReport.updated} updated, ${reconciliationReport.removed} removed, ${reconciliationReport.moved} moved`
+                    : 'Fix drift between SmartMarks and Chrome bookmarks'}
+                </p>
+              </div>
             </div>
 
-            {/* Expandable Categories */}
+            {/* Expandable Categories (v1.3.0: nested by parent category) */}
             <div className="bg-white shadow rounded-lg p-6">
               <h2 className="text-lg font-medium text-gray-900 mb-4">Bookmarks by Category</h2>
               <div className="space-y-2">
-                {stats.byCategory.map(({ category, count, bookmarks }) => (
-                  <div key={category} className="border border-gray-200 rounded-lg">
-                    {/* Category Header */}
-                    <button
-                      onClick={() => toggleCategory(category)}
-                      className="w-full flex justify-between items-center p-3 hover:bg-gray-50 transition-colors"
-                    >
-                      <div className="flex items-center space-x-3">
-                        <svg
-                          className={`h-5 w-5 text-gray-400 transition-transform ${
-                            expandedCategories.has(category) ? 'transform rotate-90' : ''
-                          }`}
-                          fill="none"
-                          viewBox="0 0 24 24"
-                          stroke="currentColor"
-                        >
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                        </svg>
-                        <span className="text-sm font-medium text-gray-700 capitalize">{category}</span>
-                      </div>
-                      <span className="text-sm text-gray-500">{count}</span>
-                    </button>
-
-                    {/* Expanded Bookmark List */}
-                    {expandedCategories.has(category) && (
-                      <div className="border-t border-gray-200 bg-gray-50">
-                        <div className="p-3 space-y-2">
-                          {bookmarks.map((bookmark) => (
-                            <div
-                              key={bookmark.id}
-                              className="flex items-center justify-between p-2 bg-white rounded border border-gray-200 hover:border-blue-300 transition-colors"
-                            >
-                              <div className="flex-1 min-w-0 mr-4">
-                                <p className="text-sm font-medium text-gray-900 truncate">
-                                  {bookmark.title}
-                                </p>
-                                <p className="text-xs text-gray-500 truncate">
-                                  {bookmark.url}
-                                </p>
-                              </div>
-                              <div className="flex items-center space-x-2">
-                                <button
-                                  onClick={() => handleEditBookmark(bookmark)}
-                                  className="p-1 text-blue-600 hover:text-blue-800"
-                                  title="Edit"
-                                >
-                                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                                  </svg>
-                                </button>
-                                <a
-                                  href={bookmark.url}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="p-1 text-gray-600 hover:text-gray-800"
-                                  title="Open"
-                                >
-                                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                  </svg>
-                                </a>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                {categoryTree.map((node) => (
+                  <CategoryTreeItem
+                    key={node.category.id}
+                    node={node}
+                    bookmarksByCategory={bookmarksByCategory}
+                    expandedCategories={expandedCategories}
+                    onToggle={toggleCategory}
+                    onEdit={handleEditBookmark}
+                  />
                 ))}
               </div>
             </div>
           </div>
         )}
 
+        {activeTab === 'categories' && (
+          <div className="space-y-6">
+            <CategoryManager categories={categories} onRefresh={loadStats} />
+            <RuleEditor categories={categories} onRefresh={loadStats} />
+          </div>
+        )}
+
+        {activeTab === 'tags' && (
+          <TagsTab bookmarks={stats.byCategory.flatMap(c => c.bookmarks)} onRefresh={loadStats} />
+        )}
+
         {activeTab === 'cleanup' && (
           <CleanupAndArchiveTab bookmarks={stats.byCategory.flatMap(c => c.bookmarks)} onRefresh={loadStats} />
         )}
 
+        {activeTab === 'activity' && (
+          <ActivityTab onRefresh={loadStats} />
+        )}
+
         {activeTab === 'settings' && (
           <div className="space-y-6">
             {/* Permissions */}
@@ -528,6 +653,118 @@ export function Options() {
               <HistoryPermissionToggle />
             </div>
 
+            {/* v1.3.0: Processing cadence */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Processing</h2>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Update Frequency</p>
+                  <p className="text-xs text-gray-500">
+                    {settings?.updateFrequency === 'daily'
+                      ? 'New bookmarks and visits are categorized and checked in one batch a day'
+                      : settings?.updateFrequency === 'weekly'
+                        ? 'New bookmarks and visits are categorized and checked in one batch a week'
+                        : 'New bookmarks are categorized and frequent sites bookmarked as they happen'}
+                  </p>
+                </div>
+                <select
+                  value={settings?.updateFrequency ?? 'realtime'}
+                  onChange={(e) => updateSettings({ updateFrequency: e.target.value as Settings['updateFrequency'] })}
+                  disabled={!settings}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="realtime">Real-time</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between mt-4 border-t pt-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Refresh Page Details</p>
+                  <p className="text-xs text-gray-500">
+                    How often descriptions, icons and authors are fetched again from each bookmarked page
+                  </p>
+                </div>
+                <select
+                  value={settings?.metadataRefreshDays ?? DEFAULT_METADATA_REFRESH_DAYS}
+                  onChange={(e) => updateSettings({ metadataRefreshDays: Number(e.target.value) })}
+                  disabled={!settings}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={7}>Every week</option>
+                  <option value={30}>Every month</option>
+                  <option value={90}>Every 3 months</option>
+                  <option value={0}>Never</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between mt-4 border-t pt-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Move Archived Bookmarks</p>
+                  <p className="text-xs text-gray-500">
+                    Archiving moves bookmarks into a "SmartMarks Archive" folder in Other bookmarks; restoring puts them back where they were
+                  </p>
+                </div>
+                <button
+                  onClick={() => updateSettings({ archiveToFolder: !settings?.archiveToFolder })}
+                  disabled={!settings}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    settings?.archiveToFolder ? 'bg-blue-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      settings?.archiveToFolder ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+              <div className="flex items-center justify-between mt-4 border-t pt-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Review Before Archiving</p>
+                  <p className="text-xs text-gray-500">
+                    Auto-archive proposes inactive bookmarks and duplicates; nothing is archived until you approve it under Cleanup & Archive
+                  </p>
+                </div>
+                <button
+                  onClick={() => updateSettings({ archiveReview: !settings?.archiveReview })}
+                  disabled={!settings}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    settings?.archiveReview ? 'bg-blue-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      settings?.archiveReview ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+              <div className="flex items-center justify-between mt-4 border-t pt-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Learn From My Bookmarks</p>
+                  <p className="text-xs text-gray-500">
+                    When no rule fits, guess the category from the bookmarks you've already sorted. Runs entirely on this device
+                  </p>
+                </div>
+                <button
+                  onClick={() => updateSettings({ enableAI: !settings?.enableAI })}
+                  disabled={!settings}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    settings?.enableAI ? 'bg-blue-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      settings?.enableAI ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            {/* v1.3.0: Background job progress */}
+            <JobMonitor />
+
             {/* v1.2.0: Auto-Bookmarking Settings */}
             <div className="bg-white shadow rounded-lg p-6">
               <h2 className="text-lg font-medium text-gray-900 mb-4">Auto-Bookmarking</h2>
@@ -651,6 +888,120 @@ export function Options() {
               </div>
             </div>
 
+            {/* v1.3.0: Other extensions using the external API */}
+            <ExternalAccess
+              clients={settings?.externalClients ?? []}
+              onChange={(externalClients) => updateSettings({ externalClients })}
+            />
+
+            {/* v1.3.0: Backup & Restore */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Backup & Restore</h2>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-700">Download Backup</p>
+                    <p className="text-xs text-gray-500">
+                      Categories, tags, pins, archive state, visit history, candidates and preference rules
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleDownloadBackup}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    Download
+                  </button>
+                </div>
+
+                <div className="border-t pt-4">
+                  <p className="text-sm font-medium text-gray-700">Restore from Backup</p>
+                  <div className="flex items-center space-x-4 mt-2 mb-3">
+                    <label className="flex items-center space-x-2 text-sm text-gray-600">
+                      <input
+                        type="radio"
+                        checked={restoreMode === 'merge'}
+                        onChange={() => setRestoreMode('merge')}
+                      />
+                      <span>Merge with current data</span>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-600">
+                      <input
+                        type="radio"
+                        checked={restoreMode === 'replace'}
+                        onChange={() => setRestoreMode('replace')}
+                      />
+                      <span>Replace current data</span>
+                    </label>
+                  </div>
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleRestoreFile}
+                    disabled={isRestoring}
+                    className="text-sm text-gray-600"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {isRestoring
+                      ? 'Restoring...'
+                      : 'Bookmarks are matched to Chrome by URL when their ids changed; missing ones are recreated'}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* v1.3.0: Bookmark File (bookmarks.html) */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Bookmark File</h2>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-700">Export as bookmarks.html</p>
+                    <p className="text-xs text-gray-500">
+                      Standard format for other browsers; categories become folders, tags are kept
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleExportHtml}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    Export
+                  </button>
+                </div>
+
+                <div className="border-t pt-4">
+                  <p className="text-sm font-medium text-gray-700">Import bookmarks.html</p>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Folders become categories and tags are imported; links you already have are skipped
+                  </p>
+                  <input
+                    type="file"
+                    accept="text/html,.html,.htm"
+                    onChange={handleImportHtml}
+                    disabled={isImportingHtml}
+                    className="text-sm text-gray-600"
+                  />
+                  {isImportingHtml && <p className="text-xs text-gray-500 mt-1">Importing...</p>}
+                </div>
+              </div>
+            </div>
+
+            {/* v1.3.0: Maintenance */}
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Maintenance</h2>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Rebuild Category Counts</p>
+                  <p className="text-xs text-gray-500">Recount active and archived bookmarks in every category</p>
+                </div>
+                <button
+                  onClick={handleRepairCounts}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Rebuild
+                </button>
+              </div>
+            </div>
+
             {/* About */}
             <div className="bg-white shadow rounded-lg p-6">
               <h2 className="text-lg font-medium text-gray-900 mb-4">About</h2>
@@ -672,6 +1023,7 @@ export function Options() {
       {editingBookmark && (
         <EditBookmarkModal
           bookmark={editingBookmark}
+          categories={categories}
           onSave={handleSaveBookmark}
           onDelete={handleDeleteBookmark}
           onCancel={() => setEditingBookmark(null)}
@@ -681,6 +1033,137 @@ export function Options() {
   );
 }
 
+// Category Tree Item Component (v1.3.0)
+interface CategoryTreeItemProps {
+  node: CategoryTreeNode;
+  bookmarksByCategory: Map<string, Bookmark[]>;
+  expandedCategories: Set<string>;
+  onToggle: (categoryId: string) => void;
+  onEdit: (bookmark: Bookmark) => void;
+}
+
+function countSubtreeBookmarks(node: CategoryTreeNode, bookmarksByCategory: Map<string, Bookmark[]>): number {
+  return (bookmarksByCategory.get(node.category.id)?.length ?? 0) +
+    node.children.reduce((sum, child) => sum + countSubtreeBookmarks(child, bookmarksByCategory), 0);
+}
+
+function CategoryTreeItem({ node, bookmarksByCategory, expandedCategories, onToggle, onEdit }: CategoryTreeItemProps) {
+  const { category } = node;
+  const count = countSubtreeBookmarks(node, bookmarksByCategory);
+  if (count === 0) return null;
+
+  const bookmarks = bookmarksByCategory.get(category.id) ?? [];
+  const isExpanded = expandedCategories.has(category.id);
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      {/* Category Header */}
+      <button
+        onClick={() => onToggle(category.id)}
+        className="w-full flex justify-between items-center p-3 hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-center space-x-3">
+          <svg
+            className={`h-5 w-5 text-gray-400 transition-transform ${
+              isExpanded ? 'transform rotate-90' : ''
+            }`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <span className="text-sm font-medium text-gray-700">
+            {category.icon ? `${category.icon} ${category.name}` : category.name}
+          </span>
+        </div>
+        <span className="text-sm text-gray-500">{count}</span>
+      </button>
+
+      {/* Expanded Sub-categories and Bookmark List */}
+      {isExpanded && (
+        <div className="border-t border-gray-200 bg-gray-50">
+          <div className="p-3 space-y-2">
+            {node.children.map((child) => (
+              <CategoryTreeItem
+                key={child.category.id}
+                node={child}
+                bookmarksByCategory={bookmarksByCategory}
+                expandedCategories={expandedCategories}
+                onToggle={onToggle}
+                onEdit={onEdit}
+              />
+            ))}
+            {bookmarks.map((bookmark) => (
+              <div
+                key={bookmark.id}
+                className="flex items-center justify-between p-2 bg-white rounded border border-gray-200 hover:border-blue-300 transition-colors"
+              >
+                <div className="flex-1 min-w-0 mr-4">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {bookmark.title}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {bookmark.url}
+                  </p>
+                  {bookmark.folderPath && bookmark.folderPath.length > 0 && (
+                    <p className="text-xs text-gray-400 truncate">
+                      📁 {formatFolderPath(bookmark.folderPath)}
+                    </p>
+                  )}
+                  {bookmark.tags?.length > 0 && (
+                    <p className="text-xs text-blue-600 truncate">
+                      {bookmark.tags.map(tag => `#${tag}`).join(' ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => onEdit(bookmark)}
+                    className="p-1 text-blue-600 hover:text-blue-800"
+                    title="Edit"
+                  >
+                    <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                  </button>
+                  <a
+                    href={bookmark.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-1 text-gray-600 hover:text-gray-800"
+                    title="Open"
+                  >
+                    <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                    </svg>
+                  </a>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// v1.3.0: One-line summary of a link check result
+function describeLinkHealth(health: LinkHealth): string {
+  switch (health.status) {
+    case 'redirected':
+      return `Redirects to ${health.finalUrl}`;
+    case 'clientError':
+      return `Not found or blocked (HTTP ${health.httpStatus})`;
+    case 'serverError':
+      return `Server error (HTTP ${health.httpStatus})`;
+    case 'unreachable':
+      return health.error ? `Unreachable: ${health.error}` : 'Unreachable';
+    default:
+      return 'Working';
+  }
+}
+
 // Cleanup & Archive Tab Component
 interface CleanupAndArchiveTabProps {
   bookmarks: Bookmark[];
@@ -690,6 +1173,14 @@ interface CleanupAndArchiveTabProps {
 function CleanupAndArchiveTab({ bookmarks, onRefresh }: CleanupAndArchiveTabProps) {
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
   const [selectedBookmarks, setSelectedBookmarks] = useState<Set<string>>(new Set());
+  const [proposals, setProposals] = useState<PendingProposal[]>([]);
+
+  // v1.3.0: Reload archive proposals whenever the bookmark list is refreshed
+  useEffect(() => {
+    getPendingProposals().then(setProposals).catch(error => {
+      console.error('Failed to load archive proposals:', error);
+    });
+  }, [bookmarks]);
 
   // Calculate stats
   const now = Date.now();
@@ -722,6 +1213,19 @@ function CleanupAndArchiveTab({ bookmarks, onRefresh }: CleanupAndArchiveTabProp
   });
   const duplicates = Array.from(duplicateGroups.values()).filter(group => group.length > 1);
 
+  // v1.3.0: Broken links, as of the last link check (only web pages are checked)
+  const brokenLinks = bookmarks.filter(b =>
+    !b.isArchived && isWebUrl(b.url) && b.linkHealth && b.linkHealth.status !== 'healthy'
+  );
+  const selectedRedirects = brokenLinks.filter(b =>
+    b.linkHealth!.status === 'redirected' && selectedBookmarks.has(b.id)
+  );
+
+  // v1.3.0: Archive proposals awaiting review
+  const selectedProposals = proposals
+    .filter(p => selectedBookmarks.has(p.bookmarkId))
+    .map(p => p.bookmarkId);
+
   // Archived bookmarks
   const archivedBookmarks = bookmarks.filter(b => b.isArchived);
 
@@ -729,14 +1233,12 @@ function CleanupAndArchiveTab({ bookmarks, onRefresh }: CleanupAndArchiveTabProp
     if (!confirm(`Archive ${bookmarkIds.length} bookmark(s)?`)) return;
 
     try {
-      for (const id of bookmarkIds) {
-        await db.bookmarks.update(id, { isArchived: true });
-      }
+      await sendRequest('ARCHIVE_BOOKMARKS', { bookmarkIds });
       setSelectedBookmarks(new Set());
       await onRefresh();
     } catch (error) {
       console.error('Failed to archive bookmarks:', error);
-      alert('Failed to archive bookmarks. See console for details.');
+      alert('Failed to archive bookmarks: ' + errorMessage(error));
     }
   }
 
@@ -744,25 +1246,68 @@ function CleanupAndArchiveTab({ bookmarks, onRefresh }: CleanupAndArchiveTabProp
     if (!confirm(`Permanently delete ${bookmarkIds.length} bookmark(s)? This cannot be undone.`)) return;
 
     try {
-      for (const id of bookmarkIds) {
-        await chrome.bookmarks.remove(id);
-        await db.bookmarks.delete(id);
-      }
+      await sendRequest('DELETE_BOOKMARKS', { bookmarkIds });
       setSelectedBookmarks(new Set());
       await onRefresh();
     } catch (error) {
       console.error('Failed to delete bookmarks:', error);
-      alert('Failed to delete bookmarks. See console for details.');
+      alert('Failed to delete bookmarks: ' + errorMessage(error));
     }
   }
 
   async function handleRestore(bookmarkId: string) {
     try {
-      await db.bookmarks.update(bookmarkId, { isArchived: false });
+      await sendRequest('RESTORE_BOOKMARKS', { bookmarkIds: [bookmarkId] });
       await onRefresh();
     } catch (error) {
       console.error('Failed to restore bookmark:', error);
-      alert('Failed to restore bookmark. See console for details.');
+      alert('Failed to restore bookmark: ' + errorMessage(error));
+    }
+  }
+
+  async function handleCheckLinks() {
+    // Fetching bookmarked pages from the background needs access to those sites
+    if (!(await requestHostAccess())) {
+      alert('Checking links needs access to the sites you have bookmarked.');
+      return;
+    }
+
+    try {
+      await sendRequest('CHECK_LINKS');
+      alert('Checking links in the background. Progress is shown under Settings → Background Jobs.');
+    } catch (error) {
+      console.error('Failed to start link check:', error);
+      alert('Failed to start link check: ' + errorMessage(error));
+    }
+  }
+
+  async function handleApplyRedirects(bookmarkIds: string[]) {
+    if (!confirm(`Update ${bookmarkIds.length} bookmark(s) to the address they redirect to?`)) return;
+
+    try {
+      await sendRequest('APPLY_LINK_REDIRECTS', { bookmarkIds });
+      setSelectedBookmarks(new Set());
+      await onRefresh();
+    } catch (error) {
+      console.error('Failed to update redirected bookmarks:', error);
+      alert('Failed to update redirected bookmarks: ' + errorMessage(error));
+    }
+  }
+
+  async function handleReviewProposals(decision: 'approve' | 'exclude' | 'snooze', bookmarkIds: string[]) {
+    try {
+      if (decision === 'approve') {
+        await sendRequest('APPROVE_ARCHIVE_PROPOSALS', { bookmarkIds });
+      } else if (decision === 'exclude') {
+        await sendRequest('EXCLUDE_ARCHIVE_PROPOSALS', { bookmarkIds });
+      } else {
+        await sendRequest('SNOOZE_ARCHIVE_PROPOSALS', { bookmarkIds, days: 30 });
+      }
+      setSelectedBookmarks(new Set());
+      await onRefresh();
+    } catch (error) {
+      console.error('Failed to review archive proposals:', error);
+      alert('Failed to review archive proposals: ' + errorMessage(error));
     }
   }
 
@@ -1035,6 +1580,190 @@ function CleanupAndArchiveTab({ bookmarks, onRefresh }: CleanupAndArchiveTabProp
         )}
       </div>
 
+      {/* v1.3.0: Broken Links Section */}
+      <div className="bg-white shadow rounded-lg">
+        <button
+          onClick={() => toggleSection('broken-links')}
+          className="w-full flex justify-between items-center p-6 hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex items-center space-x-3">
+            <svg
+              className={`h-5 w-5 text-gray-400 transition-transform ${
+                expandedSection === 'broken-links' ? 'transform rotate-90' : ''
+              }`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            <div className="text-left">
+              <h3 className="text-lg font-medium text-gray-900">🔗 Broken Links</h3>
+              <p className="text-sm text-gray-500">Dead, failing or redirected bookmarks</p>
+            </div>
+          </div>
+          <span className="text-2xl font-semibold text-red-600">{brokenLinks.length}</span>
+        </button>
+
+        {expandedSection === 'broken-links' && (
+          <div className="border-t border-gray-200 p-6">
+            <div className="flex space-x-2 mb-4">
+              <button
+                onClick={handleCheckLinks}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+              >
+                Check Links
+              </button>
+              {brokenLinks.length > 0 && (
+                <button
+                  onClick={() => selectAll(brokenLinks.map(b => b.id))}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Select All
+                </button>
+              )}
+              {selectedRedirects.length > 0 && (
+                <button
+                  onClick={() => handleApplyRedirects(selectedRedirects.map(b => b.id))}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Update to Redirect Target ({selectedRedirects.length})
+                </button>
+              )}
+              {selectedBookmarks.size > 0 && (
+                <>
+                  <button
+                    onClick={() => handleBulkArchive(Array.from(selectedBookmarks))}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    Archive Selected ({selectedBookmarks.size})
+                  </button>
+                  <button
+                    onClick={() => handleBulkDelete(Array.from(selectedBookmarks))}
+                    className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                  >
+                    Delete Selected ({selectedBookmarks.size})
+                  </button>
+                </>
+              )}
+            </div>
+            {brokenLinks.length === 0 ? (
+              <p className="text-gray-500">No broken links found. Run a check to look for dead bookmarks.</p>
+            ) : (
+              <div className="space-y-2">
+                {brokenLinks.map(bookmark => (
+                  <div key={bookmark.id} className="flex items-start space-x-3 p-3 border border-gray-200 rounded hover:border-blue-300">
+                    <input
+                      type="checkbox"
+                      checked={selectedBookmarks.has(bookmark.id)}
+                      onChange={() => toggleBookmark(bookmark.id)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{bookmark.title}</p>
+                      <p className="text-xs text-gray-500 truncate">{bookmark.url}</p>
+                      <p className={`text-xs mt-1 truncate ${
+                        bookmark.linkHealth!.status === 'redirected' ? 'text-yellow-700' : 'text-red-600'
+                      }`}>
+                        {describeLinkHealth(bookmark.linkHealth!)} • Checked {new Date(bookmark.linkHealth!.checkedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* v1.3.0: Archive Proposals Section */}
+      <div className="bg-white shadow rounded-lg">
+        <button
+          onClick={() => toggleSection('proposals')}
+          className="w-full flex justify-between items-center p-6 hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex items-center space-x-3">
+            <svg
+              className={`h-5 w-5 text-gray-400 transition-transform ${
+                expandedSection === 'proposals' ? 'transform rotate-90' : ''
+              }`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            <div className="text-left">
+              <h3 className="text-lg font-medium text-gray-900">🗂️ Proposed for Archiving</h3>
+              <p className="text-sm text-gray-500">Auto-archive suggestions waiting for your approval</p>
+            </div>
+          </div>
+          <span className="text-2xl font-semibold text-blue-600">{proposals.length}</span>
+        </button>
+
+        {expandedSection === 'proposals' && (
+          <div className="border-t border-gray-200 p-6">
+            {proposals.length === 0 ? (
+              <p className="text-gray-500">
+                Nothing to review. Turn on Review Before Archiving under Settings to approve auto-archiving here.
+              </p>
+            ) : (
+              <>
+                <div className="flex space-x-2 mb-4">
+                  <button
+                    onClick={() => selectAll(proposals.map(p => p.bookmarkId))}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    Select All
+                  </button>
+                  {selectedProposals.length > 0 && (
+                    <>
+                      <button
+                        onClick={() => handleReviewProposals('approve', selectedProposals)}
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                      >
+                        Archive Selected ({selectedProposals.length})
+                      </button>
+                      <button
+                        onClick={() => handleReviewProposals('snooze', selectedProposals)}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                      >
+                        Snooze 30 Days
+                      </button>
+                      <button
+                        onClick={() => handleReviewProposals('exclude', selectedProposals)}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                      >
+                        Never Archive
+                      </button>
+                    </>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {proposals.map(proposal => (
+                    <div key={proposal.bookmarkId} className="flex items-start space-x-3 p-3 border border-gray-200 rounded hover:border-blue-300">
+                      <input
+                        type="checkbox"
+                        checked={selectedBookmarks.has(proposal.bookmarkId)}
+                        onChange={() => toggleBookmark(proposal.bookmarkId)}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{proposal.bookmark.title}</p>
+                        <p className="text-xs text-gray-500 truncate">{proposal.bookmark.url}</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {proposal.reason} • Proposed {new Date(proposal.proposedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Archive Section */}
       <div className="bg-white shadow rounded-lg">
         <button
@@ -1105,29 +1834,52 @@ function CleanupAndArchiveTab({ bookmarks, onRefresh }: CleanupAndArchiveTabProp
 // Edit Bookmark Modal Component
 interface EditBookmarkModalProps {
   bookmark: Bookmark;
+  categories: Category[];
   onSave: (bookmark: Bookmark) => void;
   onDelete: (bookmarkId: string) => void;
   onCancel: () => void;
 }
 
-function EditBookmarkModal({ bookmark, onSave, onDelete, onCancel }: EditBookmarkModalProps) {
+function EditBookmarkModal({ bookmark, categories, onSave, onDelete, onCancel }: EditBookmarkModalProps) {
   const [title, setTitle] = useState(bookmark.title);
   const [url, setUrl] = useState(bookmark.url);
   const [category, setCategory] = useState(bookmark.category || 'uncategorized');
+  const [categoryLocked, setCategoryLocked] = useState(bookmark.categoryLocked ?? false);
+  const [parentId, setParentId] = useState(bookmark.parentId || '');
+  const [folders, setFolders] = useState<BookmarkFolder[]>([]);
+  const [tags, setTags] = useState<string[]>(bookmark.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    listFolders().then(setFolders).catch(error => {
+      console.error('Failed to load folders:', error);
+    });
+    getAllTags().then(all => setKnownTags(all.map(t => t.tag))).catch(error => {
+      console.error('Failed to load tags:', error);
+    });
+  }, []);
+
+  function addTag(value: string) {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      setTags([...tags, tag]);
+    }
+    setTagInput('');
+  }
+
+  function handleTagKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      setTags(tags.slice(0, -1));
+    }
+  }
 
-  const categories = [
-    'development',
-    'shopping',
-    'social-media',
-    'news',
-    'entertainment',
-    'work',
-    'research',
-    'finance',
-    'health',
-    'education',
-    'uncategorized'
-  ];
+  const categoryOptions = categories
+    .map(cat => ({ ...cat, path: formatCategoryPath(categories, cat.id) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -1135,7 +1887,11 @@ function EditBookmarkModal({ bookmark, onSave, onDelete, onCancel }: EditBookmar
       ...bookmark,
       title,
       url,
-      category
+      category,
+      categoryLocked,
+      // Pick up a tag that was typed but not yet confirmed with Enter
+      tags: tagInput.trim() ? normalizeTags([...tags, tagInput]) : tags,
+      parentId: parentId || undefined
     });
   }
 
@@ -1178,15 +1934,91 @@ function EditBookmarkModal({ bookmark, onSave, onDelete, onCancel }: EditBookmar
               </label>
               <select
                 value={category}
-                onChange={(e) => setCategory(e.target.value)}
+                onChange={(e) => {
+                  setCategory(e.target.value);
+                  // A category picked by hand is kept unless the user unlocks it
+                  setCategoryLocked(true);
+                }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {categories.map((cat) => (
-                  <option key={cat} value={cat} className="capitalize">
-                    {cat}
+                {categoryOptions.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.icon} {cat.path}
                   </option>
                 ))}
               </select>
+              <p className="text-xs text-gray-500 mt-1">
+                <span className="font-medium">Why this category?</span> {explainCategorization(bookmark)}
+              </p>
+              <label className="flex items-center text-sm text-gray-700 mt-2">
+                <input
+                  type="checkbox"
+                  checked={categoryLocked}
+                  onChange={(e) => setCategoryLocked(e.target.checked)}
+                  className="mr-2"
+                />
+                Lock category (automatic categorization won't change it)
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tags
+              </label>
+              <div className="flex flex-wrap items-center gap-2 px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+                {tags.map((tag) => (
+                  <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">
+                    #{tag}
+                    <button
+                      type="button"
+                      onClick={() => setTags(tags.filter(t => t !== tag))}
+                      className="ml-1 text-blue-600 hover:text-blue-900"
+                      title="Remove tag"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  list="bookmark-tag-suggestions"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={handleTagKeyDown}
+                  onBlur={() => tagInput.trim() && addTag(tagInput)}
+                  placeholder={tags.length === 0 ? 'Add tags...' : ''}
+                  className="flex-1 min-w-[8rem] text-sm focus:outline-none"
+                />
+                <datalist id="bookmark-tag-suggestions">
+                  {knownTags.filter(t => !tags.includes(t)).map((tag) => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Press Enter or comma to add a tag
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Folder
+              </label>
+              <select
+                value={parentId}
+                onChange={(e) => setParentId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {!parentId && <option value="">Unknown folder</option>}
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    {formatFolderPath(folder.path)}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Changing the folder moves the bookmark in Chrome
+              </p>
             </div>
 
             <div className="flex justify-between pt-4">
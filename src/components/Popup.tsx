@@ -4,6 +4,9 @@ import { searchBookmarks } from '../search';
 import { useFirstRun } from '../hooks/useFirstRun';
 import { PermissionDialog } from './PermissionDialog';
 import { openBookmark } from '../utils';
+import { formatFolderPath } from '../folders';
+import { explainCategorization } from '../categorization';
+import { sendRequest } from '../rpc';
 
 /**
  * SmartMarks Popup Component
@@ -47,8 +50,11 @@ export function Popup() {
 
     setLoading(true);
     try {
+      // v1.3.0: "#tag" words filter by tag, the rest is the search text
+      const tags = query.match(/#[^\s#]+/g)?.map(tag => tag.slice(1)) ?? [];
       const searchResults = await searchBookmarks({
-        query: query.trim(),
+        query: query.replace(/#[^\s#]+/g, '').trim(),
+        tags,
         includeArchived: false,
         limit: 10
       });
@@ -73,11 +79,9 @@ export function Popup() {
   async function handleGroupTabs() {
     setIsGroupingTabs(true);
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GROUP_TABS' });
-      if (response?.success) {
-        // Brief success indicator - the user will see the grouped tabs
-        console.log(`Grouped ${response.result.grouped} tabs`);
-      }
+      const { result } = await sendRequest('GROUP_TABS');
+      // Brief success indicator - the user will see the grouped tabs
+      console.log(`Grouped ${result.grouped} tabs`);
     } catch (error) {
       console.error('Tab grouping error:', error);
     } finally {
@@ -95,7 +99,7 @@ export function Popup() {
         <div className="relative">
           <input
             type="text"
-            placeholder="Search bookmarks..."
+            placeholder="Search bookmarks or #tag..."
             value={searchQuery}
             onChange={(e) => handleSearch(e.target.value)}
             className="w-full px-4 py-2 pl-10 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -137,7 +141,20 @@ export function Popup() {
                       {result.bookmark.url}
                     </div>
                     {result.bookmark.category && (
-                      <div className="text-xs text-blue-600 mt-1">{result.bookmark.category}</div>
+                      <div
+                        className="text-xs text-blue-600 mt-1"
+                        title={`Why this category? ${explainCategorization(result.bookmark)}`}
+                      >
+                        {result.bookmark.category}{result.bookmark.categoryLocked && ' 🔒'}
+                      </div>
+                    )}
+                    {result.bookmark.folderPath?.length > 0 && (
+                      <div className="text-xs text-gray-400 mt-1 truncate">📁 {formatFolderPath(result.bookmark.folderPath)}</div>
+                    )}
+                    {result.bookmark.tags?.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1 truncate">
+                        {result.bookmark.tags.map((tag: string) => `#${tag}`).join(' ')}
+                      </div>
                     )}
                   </div>
                 ))}
@@ -160,7 +177,12 @@ export function Popup() {
                     <div className="font-medium text-gray-900 truncate">{bookmark.title}</div>
                     <div className="text-sm text-gray-500 truncate mt-1">{bookmark.url}</div>
                     {bookmark.category && (
-                      <div className="text-xs text-blue-600 mt-1">{bookmark.category}</div>
+                      <div
+                        className="text-xs text-blue-600 mt-1"
+                        title={`Why this category? ${explainCategorization(bookmark)}`}
+                      >
+                        {bookmark.category}{bookmark.categoryLocked && ' 🔒'}
+                      </div>
                     )}
                   </div>
                 ))}
@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { db, type Category, type CategorizationRuleRecord } from '../db';
+import { formatCategoryPath, previewCategorizationRules, type RulePreviewChange } from '../categories';
+import type { CategorizationRuleInput } from '../categorizationRules';
+import { sendRequest, errorMessage } from '../rpc';
+
+interface RuleEditorProps {
+  categories: Category[];
+  onRefresh: () => Promise<void>;
+}
+
+interface RuleFormState {
+  category: string;
+  domains: string;
+  urlKeywords: string;
+  titleKeywords: string;
+  confidence: string;
+}
+
+const EMPTY_FORM: RuleFormState = { category: '', domains: '', urlKeywords: '', titleKeywords: '', confidence: '0.9' };
+
+function toFormState(rule: CategorizationRuleRecord): RuleFormState {
+  return {
+    category: rule.category,
+    domains: (rule.patterns.domain ?? []).join(', '),
+    urlKeywords: (rule.patterns.urlKeywords ?? []).join(', '),
+    titleKeywords: (rule.patterns.titleKeywords ?? []).join(', '),
+    confidence: String(rule.confidence)
+  };
+}
+
+function parseList(text: string): string[] {
+  return text.split(',').map(v => v.trim().toLowerCase()).filter(v => v.length > 0);
+}
+
+function toRuleInput(form: RuleFormState, id: number | null): CategorizationRuleInput {
+  return {
+    id: id ?? undefined,
+    category: form.category,
+    patterns: {
+      domain: parseList(form.domains),
+      urlKeywords: parseList(form.urlKeywords),
+      titleKeywords: parseList(form.titleKeywords)
+    },
+    confidence: Number(form.confidence)
+  };
+}
+
+// User rules first, then the defaults, each grouped by category
+function sortRules(rules: CategorizationRuleRecord[]): CategorizationRuleRecord[] {
+  return [...rules].sort((a, b) =>
+    (a.source === b.source ? 0 : a.source === 'user' ? -1 : 1) || a.category.localeCompare(b.category)
+  );
+}
+
+/**
+ * Categorization rules: edit the domains and keywords that assign categories
+ * Edits can be previewed against existing bookmarks before they are saved
+ */
+export function RuleEditor({ categories, onRefresh }: RuleEditorProps) {
+  const [rules, setRules] = useState<CategorizationRuleRecord[]>([]);
+  const [form, setForm] = useState<RuleFormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<RulePreviewChange[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categoryName = (id: string | undefined) =>
+    id ? formatCategoryPath(categories, id) : 'No match';
+
+  async function loadRules() {
+    setRules(sortRules(await db.categorizationRules.toArray()));
+  }
+
+  useEffect(() => {
+    db.categorizationRules.toArray().then(rows => setRules(sortRules(rows))).catch(error => {
+      console.error('Failed to load categorization rules:', error);
+    });
+  }, []);
+
+  async function send(request: () => Promise<unknown>, failure: string): Promise<boolean> {
+    setIsSaving(true);
+    try {
+      await request();
+      await loadRules();
+      await onRefresh();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(`${failure}: ` + errorMessage(error));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setPreview(null);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const rule = toRuleInput(form, editingId);
+    if (await send(() => sendRequest('SAVE_CATEGORIZATION_RULE', { rule }), 'Failed to save rule')) {
+      resetForm();
+    }
+  }
+
+  async function handlePreview() {
+    const edited = toRuleInput(form, editingId);
+    const draft: CategorizationRuleRecord = {
+      ...edited,
+      source: rules.find(r => r.id === editingId)?.source ?? 'user',
+      isActive: true
+    };
+    const draftRules = [...rules.filter(r => r.isActive && r.id !== editingId), draft];
+
+    try {
+      setPreview(await previewCategorizationRules(draftRules));
+    } catch (error) {
+      console.error('Rule preview failed:', error);
+      alert('Failed to preview rule: ' + errorMessage(error));
+    }
+  }
+
+  function handleEdit(rule: CategorizationRuleRecord) {
+    setEditingId(rule.id!);
+    setForm(toFormState(rule));
+    setPreview(null);
+  }
+
+  async function handleToggle(rule: CategorizationRuleRecord) {
+    await send(
+      () => sendRequest('SAVE_CATEGORIZATION_RULE', { rule: { ...rule, isActive: !rule.isActive } }),
+      'Failed to update rule'
+    );
+  }
+
+  async function handleDelete(rule: CategorizationRuleRecord) {
+    if (!confirm(`Delete this rule for "${categoryName(rule.category)}"?`)) {
+      return;
+    }
+    if (await send(() => sendRequest('DELETE_CATEGORIZATION_RULE', { ruleId: rule.id! }), 'Failed to delete rule')) {
+      if (editingId === rule.id) resetForm();
+    }
+  }
+
+  async function handleResetDefaults() {
+    if (!confirm('Restore the built-in rules? Your changes to them are lost; your own rules are kept.')) {
+      return;
+    }
+    if (await send(() => sendRequest('RESET_CATEGORIZATION_RULES', {}), 'Failed to reset rules')) {
+      resetForm();
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Create / Edit Form */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          {editingId ? 'Edit Rule' : 'New Categorization Rule'}
+        </h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-6">
+            <div className="sm:col-span-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              >
+                <option value="">Choose a category</option>
+                {categories.filter(c => c.id !== 'uncategorized').map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.icon} {formatCategoryPath(categories, c.id)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confidence</label>
+              <input
+                type="number"
+                min="0.05"
+                max="1"
+                step="0.05"
+                value={form.confidence}
+                onChange={(e) => setForm({ ...form, confidence: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Domains</label>
+            <input
+              type="text"
+              value={form.domains}
+              onChange={(e) => setForm({ ...form, domains: e.target.value })}
+              placeholder="allrecipes.com, seriouseats.com"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">URL Keywords</label>
+              <input
+                type="text"
+                value={form.urlKeywords}
+                onChange={(e) => setForm({ ...form, urlKeywords: e.target.value })}
+                placeholder="recipe, cooking"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title Keywords</label>
+              <input
+                type="text"
+                value={form.titleKeywords}
+                onChange={(e) => setForm({ ...form, titleKeywords: e.target.value })}
+                placeholder="recipe, dinner"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Comma-separated. A domain match weighs most; a bookmark gets the category when the
+            match times the confidence reaches 50%. Your rules win over the built-in ones.
+          </p>
+          <div className="flex justify-end space-x-3">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={!form.category}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+            >
+              {editingId ? 'Save Changes' : 'Add Rule'}
+            </button>
+          </div>
+        </form>
+
+        {preview && (
+          <div className="mt-4 pt-4 border-t border-gray-200">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">
+              {preview.length === 0
+                ? 'No bookmark would be categorized differently'
+                : `${preview.length} bookmark(s) would be categorized differently`}
+            </h3>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {preview.map(({ bookmark, from, to }) => (
+                <div key={bookmark.id} className="flex items-center justify-between text-sm">
+                  <span className="truncate text-gray-900 mr-3">{bookmark.title}</span>
+                  <span className="flex-shrink-0 text-gray-500">
+                    {categoryName(from)} → <span className="text-gray-900">{categoryName(to)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Saved rules only categorize uncategorized bookmarks; bookmarks you already filed keep their category.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Rule List */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900">Categorization Rules</h2>
+          <button
+            onClick={handleResetDefaults}
+            disabled={isSaving}
+            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+          >
+            Reset Built-in Rules
+          </button>
+        </div>
+        <div className="space-y-2">
+          {rules.map((rule) => {
+            const patterns = [
+              ...(rule.patterns.domain ?? []),
+              ...(rule.patterns.urlKeywords ?? []).map(k => `url: ${k}`),
+              ...(rule.patterns.titleKeywords ?? []).map(k => `title: ${k}`)
+            ];
+            return (
+              <div
+                key={rule.id}
+                className={`border border-gray-200 rounded-lg p-3 flex items-center justify-between ${rule.isActive ? '' : 'opacity-60'}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {categoryName(rule.category)}
+                    <span className="ml-2 text-xs text-gray-400">
+                      {rule.source === 'default' ? 'built-in' : 'yours'} · {Math.round(rule.confidence * 100)}%
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">{patterns.join(', ')}</p>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0 ml-3">
+                  <button
+                    onClick={() => handleToggle(rule)}
+                    disabled={isSaving}
+                    className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                  >
+                    {rule.isActive ? 'Turn Off' : 'Turn On'}
+                  </button>
+                  <button
+                    onClick={() => handleEdit(rule)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  {rule.source === 'user' && (
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      disabled={isSaving}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
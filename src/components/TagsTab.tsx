@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import type { Bookmark } from '../db';
+import { getAllTags, type TagCount } from '../tags';
+import { sendRequest, errorMessage } from '../rpc';
+
+interface TagsTabProps {
+  bookmarks: Bookmark[];
+  onRefresh: () => Promise<void>;
+}
+
+/**
+ * Tags tab: tag cloud plus bulk tag editing across categories
+ */
+export function TagsTab({ bookmarks, onRefresh }: TagsTabProps) {
+  const [tagCounts, setTagCounts] = useState<TagCount[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [filterText, setFilterText] = useState('');
+  const [selectedBookmarks, setSelectedBookmarks] = useState<Set<string>>(new Set());
+  const [bulkTag, setBulkTag] = useState('');
+
+  // Reload the cloud whenever the bookmark list is refreshed
+  useEffect(() => {
+    getAllTags().then(setTagCounts).catch(error => {
+      console.error('Failed to load tags:', error);
+    });
+  }, [bookmarks]);
+
+  const maxCount = Math.max(1, ...tagCounts.map(t => t.count));
+  const filter = filterText.toLowerCase();
+  const visibleBookmarks = bookmarks
+    .filter(b => !selectedTag || b.tags?.includes(selectedTag))
+    .filter(b => !filter || b.title.toLowerCase().includes(filter) || b.url.toLowerCase().includes(filter));
+
+  function toggleBookmark(id: string) {
+    const newSelected = new Set(selectedBookmarks);
+    if (newSelected.has(id)) {
+      newSelected.delete(id);
+    } else {
+      newSelected.add(id);
+    }
+    setSelectedBookmarks(newSelected);
+  }
+
+  function toggleAllVisible() {
+    const allSelected = visibleBookmarks.every(b => selectedBookmarks.has(b.id));
+    setSelectedBookmarks(allSelected ? new Set() : new Set(visibleBookmarks.map(b => b.id)));
+  }
+
+  async function handleBulk(action: 'add' | 'remove') {
+    const tags = bulkTag.split(',');
+    const ids = Array.from(selectedBookmarks);
+
+    try {
+      const { updated } = await sendRequest(action === 'add' ? 'ADD_TAGS' : 'REMOVE_TAGS', { bookmarkIds: ids, tags });
+      console.log(`${action === 'add' ? 'Tagged' : 'Untagged'} ${updated} bookmark(s)`);
+      setBulkTag('');
+      setSelectedBookmarks(new Set());
+      await onRefresh();
+    } catch (error) {
+      console.error('Bulk tag update failed:', error);
+      alert('Failed to update tags: ' + errorMessage(error));
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Tag Cloud */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Tag Cloud</h2>
+        {tagCounts.length === 0 ? (
+          <p className="text-sm text-gray-500">No tags yet. Add tags when editing a bookmark, or in bulk below.</p>
+        ) : (
+          <div className="flex flex-wrap items-baseline gap-3">
+            {tagCounts.map(({ tag, count }) => (
+              <button
+                key={tag}
+                onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                className={`hover:underline ${selectedTag === tag ? 'text-blue-700 font-semibold' : 'text-blue-500'}`}
+                style={{ fontSize: `${0.75 + (count / maxCount) * 0.75}rem` }}
+                title={`${count} bookmark(s)`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Bulk Tag Editing */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h2 className="text-lg font-medium text-gray-900">
+            {selectedTag ? `Bookmarks tagged #${selectedTag}` : 'All Bookmarks'}
+            <span className="ml-2 text-sm font-normal text-gray-500">{visibleBookmarks.length}</span>
+          </h2>
+          <input
+            type="text"
+            value={filterText}
+            onChange={(e) => setFilterText(e.target.value)}
+            placeholder="Filter by title or URL..."
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4 p-3 bg-gray-50 rounded-lg">
+          <span className="text-sm text-gray-700">{selectedBookmarks.size} selected</span>
+          <input
+            type="text"
+            list="bulk-tag-suggestions"
+            value={bulkTag}
+            onChange={(e) => setBulkTag(e.target.value)}
+            placeholder="tag, another-tag"
+            className="flex-1 min-w-[10rem] px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <datalist id="bulk-tag-suggestions">
+            {tagCounts.map(({ tag }) => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+          <button
+            onClick={() => handleBulk('add')}
+            disabled={selectedBookmarks.size === 0 || !bulkTag.trim()}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add Tags
+          </button>
+          <button
+            onClick={() => handleBulk('remove')}
+            disabled={selectedBookmarks.size === 0 || !bulkTag.trim()}
+            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+          >
+            Remove Tags
+          </button>
+        </div>
+
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {visibleBookmarks.length > 0 && (
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={visibleBookmarks.every(b => selectedBookmarks.has(b.id))}
+                onChange={toggleAllVisible}
+              />
+              <span>Select all</span>
+            </label>
+          )}
+          {visibleBookmarks.map((bookmark) => (
+            <label
+              key={bookmark.id}
+              className="flex items-center space-x-3 p-2 bg-white rounded border border-gray-200 hover:border-blue-300 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selectedBookmarks.has(bookmark.id)}
+                onChange={() => toggleBookmark(bookmark.id)}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{bookmark.title}</p>
+                <p className="text-xs text-gray-500 truncate">{bookmark.url}</p>
+              </div>
+              <div className="flex flex-wrap gap-1 justify-end">
+                {bookmark.tags?.map((tag) => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
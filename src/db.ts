@@ -1,4 +1,5 @@
-import Dexie, { type Table } from 'dexie';
+import Dexie, { type Table, type Transaction } from 'dexie';
+import { DEFAULT_RULES } from './categorization';
 
 // Database models
 export interface Bookmark {
@@ -12,11 +13,50 @@ export interface Bookmark {
   visitCount: number;
   isPinned: boolean;
   isArchived: boolean;
+  // v1.3.0: Chrome folder location (kept in sync by reconciliation and bookmark events)
+  parentId?: string;
+  index?: number;
+  folderPath?: string[];
+  // v1.3.0: Where the bookmark was before archiving moved it to the archive folder
+  archivedFrom?: { parentId: string; index: number };
   metadata: {
     description?: string;
     favicon?: string;
     contentHash: string;
+    // v1.3.0: Page details and fetch bookkeeping, see metadataBackfill.ts
+    keywords?: string[];
+    author?: string;
+    publishDate?: string;
+    fetchStatus?: 'ok' | 'failed';
+    fetchedAt?: number;       // Last fetch attempt
+    fetchError?: string;
+    failedAttempts?: number;  // Consecutive failures, for retry backoff
   };
+  // v1.3.0: Result of the last link check, see linkChecker.ts
+  linkHealth?: LinkHealth;
+  // v1.3.0: Time actually spent on the page, see visitDuration.ts
+  totalDuration?: number;  // ms, across all visits
+  bounceCount?: number;    // Visits too short to count as using the bookmark
+  lastEngagedAt?: number;  // Last visit that wasn't a bounce
+  // v1.3.0: How the current category was assigned
+  categorization?: CategorizationInfo;
+  categoryLocked?: boolean; // Set by hand; automatic categorization leaves it alone
+}
+
+export interface CategorizationInfo {
+  method: 'rule' | 'ai' | 'manual' | 'learned';
+  confidence: number;
+  categorizedAt: number;
+  ruleId?: number;    // Matched categorization rule
+  signals?: string[]; // What matched, e.g. "domain github.com", "title keyword 'api'"
+}
+
+export interface LinkHealth {
+  status: 'healthy' | 'redirected' | 'clientError' | 'serverError' | 'unreachable';
+  httpStatus?: number;
+  finalUrl?: string; // Where a redirected link ends up
+  error?: string;    // Why an unreachable link couldn't be fetched
+  checkedAt: number;
 }
 
 export interface Category {
@@ -25,14 +65,17 @@ export interface Category {
   icon?: string;
   color?: string;
   isDefault: boolean;
-  bookmarkCount: number;
+  parentId?: string;       // v1.3.0: Parent category for nesting (e.g. Development › Frontend)
+  keywords?: string[];     // v1.3.0: Words that hint at this category in searches and preferences
+  bookmarkCount: number;   // Active bookmarks, maintained by table hooks
+  archivedCount: number;   // v1.3.0: Archived bookmarks, maintained by table hooks
 }
 
 export interface VisitHistory {
   id?: number;
   bookmarkId: string;
   timestamp: number;
-  duration: number;
+  duration: number; // ms the page was looked at, measured by visitDuration.ts
 }
 
 export interface Settings {
@@ -50,6 +93,74 @@ export interface Settings {
   monthlyVisitThreshold: number;   // default: 3
   quarterlyVisitThreshold: number; // default: 5
   autoBookmarkEnabled: boolean;    // default: true
+  // v1.3.0: Merged category id -> surviving category id, so rule matches follow merges
+  categoryRedirects?: Record<string, string>;
+  // v1.3.0: Re-fetch page details older than this many days (0 = never)
+  metadataRefreshDays?: number;
+  // v1.3.0: Other extensions allowed to use the external API
+  externalClients?: ExternalClient[];
+  // v1.3.0: Move archived bookmarks into a "SmartMarks Archive" folder in Chrome
+  archiveToFolder?: boolean;
+  // v1.3.0: Auto-archive only proposes; the user approves in the Cleanup tab
+  archiveReview?: boolean;
+}
+
+// v1.3.0: A categorization rule, editable in Options (see categorizationRules.ts)
+export interface CategorizationRuleRecord {
+  id?: number;
+  category: string;
+  patterns: {
+    domain?: string[];
+    urlKeywords?: string[];
+    titleKeywords?: string[];
+  };
+  confidence: number;         // 0-1, scales how strongly a match counts
+  source: 'default' | 'user'; // Defaults are seeded from the built-in rules
+  isActive: boolean;
+}
+
+// v1.3.0: A category learned from a manual correction, see learnedCategories.ts
+export interface LearnedAssociation {
+  pattern: string;      // Domain ("github.com") or domain plus first path segment ("github.com/acme")
+  category: string;
+  corrections: number;  // Times the user picked this category for the pattern
+  learnedAt: number;
+}
+
+// v1.3.0: Word counts of the local classifier, see classifier.ts
+export interface ClassifierModel {
+  id: 'local';
+  docCount: number;
+  categories: Record<string, { docCount: number; tokenCount: number; tokens: Record<string, number> }>;
+  vocabulary: Record<string, number>; // Token -> number of training bookmarks containing it
+  vocabularySize: number;
+}
+
+// v1.3.0: What a bookmark contributed to the classifier, so it can be taken out again
+export interface ClassifierSample {
+  bookmarkId: string;
+  category: string;
+  tokens: string[];
+}
+
+// v1.3.0: An archive proposed by the archive job in review mode, see archiveReview.ts
+export interface ArchiveProposal {
+  bookmarkId: string;
+  reason: string;           // e.g. "Not visited in 94 days"
+  duplicateOf?: string;     // Bookmark kept instead of this one
+  proposedAt: number;
+  status: 'pending' | 'snoozed' | 'excluded';  // Excluded bookmarks are never proposed again
+  snoozedUntil?: number;
+}
+
+// v1.3.0: What an external caller may do, see externalApi.ts
+export type ExternalScope = 'search' | 'add' | 'tags' | 'candidates';
+
+export interface ExternalClient {
+  extensionId: string;
+  name: string;
+  scopes: ExternalScope[];
+  addedAt: number;
 }
 
 // v1.2.0: Track URLs that might become bookmarks
@@ -66,6 +177,9 @@ export interface CandidateUrl {
   monthlyVisits: number;
   quarterlyVisits: number;
   status: 'tracking' | 'promoted' | 'dismissed' | 'excluded';
+  // v1.3.0: Time spent and bounced visits, see visitDuration.ts
+  totalDuration?: number;
+  bounceCount?: number;
 }
 
 // v1.2.0: Natural language rules parsed from user preferences
@@ -84,15 +198,87 @@ export interface NaturalLanguageRule {
 
 export interface ProcessingCheckpoint {
   id?: number;
-  jobType: 'categorize' | 'archive' | 'metadata' | 'historyAnalysis' | 'candidateRecalculation';
+  jobType: 'categorize' | 'archive' | 'metadata' | 'historyAnalysis' | 'candidateRecalculation' | 'import' | 'linkCheck';
   startTime: number;
   lastProcessedId?: string;
   totalItems: number;
   processedCount: number;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'; // v1.3.0: paused/cancelled from the job monitor
   // v1.2.0: Additional data for history analysis
   lastProcessedIndex?: number;
   urlStats?: unknown; // Store serialized stats for resume
+  // v1.3.0: Explicit work list (e.g. bookmark ids created during a Chrome import)
+  itemIds?: string[];
+  isCollecting?: boolean; // Import still in progress, itemIds still growing
+  stats?: Record<string, number>; // Counters accumulated across chunks
+  retryCount?: number; // v1.3.0: Failed attempts so far; the job runner gives up after a few
+  lastError?: string;
+}
+
+// v1.3.0: Append-only record of bookmark changes, see activityLog.ts
+export interface ActivityEntry {
+  id?: number;
+  timestamp: number;
+  action: 'create' | 'update' | 'categorize' | 'archive' | 'restore' | 'delete' | 'undo';
+  bookmarkId: string;
+  title: string;         // Kept for display once the bookmark is gone
+  before?: Bookmark;     // Missing when the bookmark was created
+  after?: Bookmark;      // Missing when the bookmark was deleted
+  cause: 'rule' | 'job' | 'user';
+  reason?: string;       // e.g. "Not visited in 90 days"
+  jobType?: ProcessingCheckpoint['jobType'];
+  runId?: string;        // Job run that made the change, so a whole run can be undone
+  undoes?: number;       // Undo entries: the entry that was undone
+}
+
+// v1.3.0: Keywords for the built-in categories (used by search hints and the preferences parser)
+export const DEFAULT_CATEGORY_KEYWORDS: Record<string, string[]> = {
+  development: ['dev', 'development', 'programming', 'code', 'coding', 'tech', 'software', 'github', 'stackoverflow'],
+  shopping: ['shop', 'shopping', 'store', 'buy', 'purchase', 'amazon', 'ebay'],
+  social: ['social', 'social media', 'facebook', 'twitter', 'instagram', 'reddit', 'linkedin'],
+  news: ['news', 'article', 'newspaper', 'media', 'headlines'],
+  entertainment: ['entertainment', 'video', 'watch', 'music', 'games', 'gaming', 'movie', 'movies', 'youtube', 'netflix', 'streaming'],
+  work: ['work', 'office', 'job', 'business', 'professional', 'meeting', 'slack', 'teams'],
+  research: ['research', 'academic', 'science', 'study', 'paper', 'journal'],
+  finance: ['finance', 'financial', 'bank', 'banking', 'money', 'invest', 'investment', 'crypto', 'stocks'],
+  health: ['health', 'medical', 'fitness', 'wellness', 'doctor'],
+  education: ['education', 'learn', 'learning', 'course', 'tutorial', 'school', 'university']
+};
+
+// Per-category change in active/archived bookmark counts
+type CategoryCountDelta = Map<string, { active: number; archived: number }>;
+
+/**
+ * Category a bookmark is counted under (bookmarks without one count as uncategorized)
+ */
+function countedCategory(bookmark: Pick<Bookmark, 'category'>): string {
+  return bookmark.category || 'uncategorized';
+}
+
+function addToDelta(
+  delta: CategoryCountDelta,
+  bookmark: Pick<Bookmark, 'category' | 'isArchived'>,
+  sign: 1 | -1
+) {
+  const key = countedCategory(bookmark);
+  const entry = delta.get(key) ?? { active: 0, archived: 0 };
+  if (bookmark.isArchived) {
+    entry.archived += sign;
+  } else {
+    entry.active += sign;
+  }
+  delta.set(key, entry);
+}
+
+/**
+ * Count active and archived bookmarks per category from scratch
+ */
+function tallyCategoryCounts(bookmarks: Bookmark[]): CategoryCountDelta {
+  const tally: CategoryCountDelta = new Map();
+  for (const bookmark of bookmarks) {
+    addToDelta(tally, bookmark, 1);
+  }
+  return tally;
 }
 
 // Database class
@@ -104,9 +290,22 @@ export class SmartMarksDB extends Dexie {
   checkpoints!: Table<ProcessingCheckpoint, number>;
   candidateUrls!: Table<CandidateUrl, number>;
   naturalLanguageRules!: Table<NaturalLanguageRule, number>;
+  activityLog!: Table<ActivityEntry, number>;
+  archiveProposals!: Table<ArchiveProposal, string>;
+  categorizationRules!: Table<CategorizationRuleRecord, number>;
+  learnedAssociations!: Table<LearnedAssociation, string>;
+  classifier!: Table<ClassifierModel, string>;
+  classifierSamples!: Table<ClassifierSample, string>;
 
-  constructor() {
-    super('SmartMarksDB');
+  // Count changes collected per transaction, applied once it commits
+  private pendingCountDeltas = new WeakMap<Transaction, CategoryCountDelta>();
+
+  /**
+   * maxVersion stops the schema at an older version; restore uses this to load
+   * an old backup into a scratch database and upgrade it through the versions below
+   */
+  constructor(name: string = 'SmartMarksDB', maxVersion: number = Infinity) {
+    super(name);
 
     this.version(1).stores({
       bookmarks: 'id, url, category, lastVisited, isPinned, isArchived',
@@ -115,33 +314,279 @@ export class SmartMarksDB extends Dexie {
       settings: 'userId'
     });
 
-    // Version 2: Add checkpoints table for MV3 resumable processing
-    this.version(2).stores({
-      bookmarks: 'id, url, category, lastVisited, isPinned, isArchived',
-      categories: 'id, name',
-      visitHistory: '++id, bookmarkId, timestamp',
-      settings: 'userId',
-      checkpoints: '++id, jobType, status'
+    if (maxVersion >= 2) {
+      // Version 2: Add checkpoints table for MV3 resumable processing
+      this.version(2).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived',
+        categories: 'id, name',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status'
+      });
+    }
+
+    if (maxVersion >= 3) {
+      // Version 3: Add auto-bookmarking tables
+      this.version(3).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived',
+        categories: 'id, name',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive'
+      }).upgrade(tx => {
+        // Migrate existing settings to include new fields
+        return tx.table('settings').toCollection().modify(settings => {
+          settings.weeklyVisitThreshold = settings.weeklyVisitThreshold ?? 2;
+          settings.monthlyVisitThreshold = settings.monthlyVisitThreshold ?? 3;
+          settings.quarterlyVisitThreshold = settings.quarterlyVisitThreshold ?? 5;
+          settings.autoBookmarkEnabled = settings.autoBookmarkEnabled ?? true;
+        });
+      });
+    }
+
+    if (maxVersion >= 4) {
+      // Version 4: Index bookmarks by Chrome folder
+      // Folder location is backfilled by reconcileBookmarks() on install/update
+      this.version(4).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId',
+        categories: 'id, name',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive'
+      });
+    }
+
+    if (maxVersion >= 5) {
+      // Version 5: Split category counts into active/archived and rebuild them
+      this.version(5).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId',
+        categories: 'id, name',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive'
+      }).upgrade(async tx => {
+        // Old counts only ever went up, so recompute instead of migrating them
+        const tally = tallyCategoryCounts(await tx.table('bookmarks').toArray());
+        await tx.table('categories').toCollection().modify(category => {
+          const counts = tally.get(category.id);
+          category.bookmarkCount = counts?.active ?? 0;
+          category.archivedCount = counts?.archived ?? 0;
+        });
+      });
+    }
+
+    if (maxVersion >= 6) {
+      // Version 6: Category keywords move from code into the categories table
+      this.version(6).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId',
+        categories: 'id, name',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive'
+      }).upgrade(tx => {
+        return tx.table('categories').toCollection().modify(category => {
+          category.keywords = category.keywords ?? DEFAULT_CATEGORY_KEYWORDS[category.id] ?? [];
+        });
+      });
+    }
+
+    if (maxVersion >= 7) {
+      // Version 7: Nested categories (index parentId to look up children)
+      this.version(7).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId',
+        categories: 'id, name, parentId',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive'
+      });
+    }
+
+    if (maxVersion >= 8) {
+      // Version 8: Multi-entry tag index for tag filters and the tag cloud
+      this.version(8).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId, *tags',
+        categories: 'id, name, parentId',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive'
+      }).upgrade(tx => {
+        return tx.table('bookmarks').toCollection().modify(bookmark => {
+          bookmark.tags = bookmark.tags ?? [];
+        });
+      });
+    }
+
+    if (maxVersion >= 9) {
+      // Version 9: Activity log of automated and user changes, for undo
+      this.version(9).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId, *tags',
+        categories: 'id, name, parentId',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive',
+        activityLog: '++id, timestamp, bookmarkId, runId, undoes'
+      });
+    }
+
+    if (maxVersion >= 10) {
+      // Version 10: Archive proposals awaiting review
+      this.version(10).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId, *tags',
+        categories: 'id, name, parentId',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive',
+        activityLog: '++id, timestamp, bookmarkId, runId, undoes',
+        archiveProposals: 'bookmarkId, status'
+      });
+    }
+
+    if (maxVersion >= 11) {
+      // Version 11: Editable categorization rules (seeded by initialize())
+      this.version(11).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId, *tags',
+        categories: 'id, name, parentId',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive',
+        activityLog: '++id, timestamp, bookmarkId, runId, undoes',
+        archiveProposals: 'bookmarkId, status',
+        categorizationRules: '++id, category, source'
+      });
+    }
+
+    if (maxVersion >= 12) {
+      // Version 12: Categories learned from manual corrections
+      this.version(12).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId, *tags',
+        categories: 'id, name, parentId',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive',
+        activityLog: '++id, timestamp, bookmarkId, runId, undoes',
+        archiveProposals: 'bookmarkId, status',
+        categorizationRules: '++id, category, source',
+        learnedAssociations: 'pattern, category'
+      });
+    }
+
+    if (maxVersion >= 13) {
+      // Version 13: Local classifier for bookmarks the rules can't place
+      this.version(13).stores({
+        bookmarks: 'id, url, category, lastVisited, isPinned, isArchived, parentId, *tags',
+        categories: 'id, name, parentId',
+        visitHistory: '++id, bookmarkId, timestamp',
+        settings: 'userId',
+        checkpoints: '++id, jobType, status',
+        candidateUrls: '++id, url, normalizedUrl, domain, status',
+        naturalLanguageRules: '++id, type, isActive',
+        activityLog: '++id, timestamp, bookmarkId, runId, undoes',
+        archiveProposals: 'bookmarkId, status',
+        categorizationRules: '++id, category, source',
+        learnedAssociations: 'pattern, category',
+        classifier: 'id',
+        classifierSamples: 'bookmarkId'
+      });
+    }
+
+    this.installCategoryCountHooks();
+  }
+
+  /**
+   * Keep Category.bookmarkCount/archivedCount in step with every bookmark write
+   * Adds, deletes, recategorization and archive/restore all go through these hooks,
+   * so no caller has to adjust counts by hand
+   */
+  private installCategoryCountHooks() {
+    this.bookmarks.hook('creating', (_primKey, obj, trans) => {
+      addToDelta(this.countDeltaFor(trans), obj, 1);
     });
 
-    // Version 3: Add auto-bookmarking tables
-    this.version(3).stores({
-      bookmarks: 'id, url, category, lastVisited, isPinned, isArchived',
-      categories: 'id, name',
-      visitHistory: '++id, bookmarkId, timestamp',
-      settings: 'userId',
-      checkpoints: '++id, jobType, status',
-      candidateUrls: '++id, url, normalizedUrl, domain, status',
-      naturalLanguageRules: '++id, type, isActive'
-    }).upgrade(tx => {
-      // Migrate existing settings to include new fields
-      return tx.table('settings').toCollection().modify(settings => {
-        settings.weeklyVisitThreshold = settings.weeklyVisitThreshold ?? 2;
-        settings.monthlyVisitThreshold = settings.monthlyVisitThreshold ?? 3;
-        settings.quarterlyVisitThreshold = settings.quarterlyVisitThreshold ?? 5;
-        settings.autoBookmarkEnabled = settings.autoBookmarkEnabled ?? true;
+    this.bookmarks.hook('updating', (mods, _primKey, obj, trans) => {
+      const changes = mods as Partial<Bookmark>;
+      if (!('category' in changes) && !('isArchived' in changes)) return;
+
+      const updated = {
+        category: 'category' in changes ? changes.category : obj.category,
+        isArchived: 'isArchived' in changes ? !!changes.isArchived : obj.isArchived
+      };
+      if (countedCategory(updated) === countedCategory(obj) && updated.isArchived === obj.isArchived) {
+        return;
+      }
+
+      const delta = this.countDeltaFor(trans);
+      addToDelta(delta, obj, -1);
+      addToDelta(delta, updated, 1);
+    });
+
+    this.bookmarks.hook('deleting', (_primKey, obj, trans) => {
+      addToDelta(this.countDeltaFor(trans), obj, -1);
+    });
+  }
+
+  /**
+   * Get the pending count delta for a transaction, applying it once the transaction commits
+   */
+  private countDeltaFor(trans: Transaction): CategoryCountDelta {
+    let delta = this.pendingCountDeltas.get(trans);
+    if (!delta) {
+      const pending: CategoryCountDelta = new Map();
+      this.pendingCountDeltas.set(trans, pending);
+      trans.on('complete', () => {
+        Dexie.ignoreTransaction(() => this.applyCountDelta(pending)).catch(error => {
+          console.error('Failed to update category counts:', error);
+        });
+      });
+      delta = pending;
+    }
+    return delta;
+  }
+
+  private async applyCountDelta(delta: CategoryCountDelta) {
+    await this.transaction('rw', this.categories, async () => {
+      for (const [id, { active, archived }] of delta) {
+        if (active === 0 && archived === 0) continue;
+        await this.categories.where('id').equals(id).modify(category => {
+          category.bookmarkCount = Math.max(0, category.bookmarkCount + active);
+          category.archivedCount = Math.max(0, (category.archivedCount ?? 0) + archived);
+        });
+      }
+    });
+  }
+
+  /**
+   * Repair: recompute every category count from the bookmarks table
+   */
+  async recomputeCategoryCounts(): Promise<void> {
+    await this.transaction('rw', this.bookmarks, this.categories, async () => {
+      const tally = tallyCategoryCounts(await this.bookmarks.toArray());
+      await this.categories.toCollection().modify(category => {
+        const counts = tally.get(category.id);
+        category.bookmarkCount = counts?.active ?? 0;
+        category.archivedCount = counts?.archived ?? 0;
       });
     });
+    console.log('Category counts recomputed');
   }
 
   // Initialize default data
@@ -155,21 +600,41 @@ export class SmartMarksDB extends Dexie {
     if (settingsCount === 0) {
       await this.addDefaultSettings();
     }
+
+    // v1.3.0: Default rules can only be disabled in Options, so an empty table was never seeded
+    const ruleCount = await this.categorizationRules.count();
+    if (ruleCount === 0) {
+      await this.addDefaultRules();
+    }
+  }
+
+  /**
+   * Seed the categorization rules from the built-in ones
+   * Also used to reset the defaults from Options
+   */
+  async addDefaultRules() {
+    await this.categorizationRules.bulkAdd(DEFAULT_RULES.map(rule => ({
+      category: rule.category,
+      patterns: rule.patterns,
+      confidence: rule.confidence,
+      source: 'default' as const,
+      isActive: true
+    })));
   }
 
   private async addDefaultCategories() {
     const defaultCategories: Category[] = [
-      { id: 'development', name: 'Development', icon: '💻', color: '#3b82f6', isDefault: true, bookmarkCount: 0 },
-      { id: 'shopping', name: 'Shopping', icon: '🛒', color: '#10b981', isDefault: true, bookmarkCount: 0 },
-      { id: 'social', name: 'Social Media', icon: '💬', color: '#8b5cf6', isDefault: true, bookmarkCount: 0 },
-      { id: 'news', name: 'News', icon: '📰', color: '#ef4444', isDefault: true, bookmarkCount: 0 },
-      { id: 'entertainment', name: 'Entertainment', icon: '🎬', color: '#f59e0b', isDefault: true, bookmarkCount: 0 },
-      { id: 'work', name: 'Work', icon: '💼', color: '#6366f1', isDefault: true, bookmarkCount: 0 },
-      { id: 'research', name: 'Research', icon: '🔬', color: '#ec4899', isDefault: true, bookmarkCount: 0 },
-      { id: 'finance', name: 'Finance', icon: '💰', color: '#14b8a6', isDefault: true, bookmarkCount: 0 },
-      { id: 'health', name: 'Health', icon: '🏥', color: '#f43f5e', isDefault: true, bookmarkCount: 0 },
-      { id: 'education', name: 'Education', icon: '📚', color: '#06b6d4', isDefault: true, bookmarkCount: 0 },
-      { id: 'uncategorized', name: 'Uncategorized', icon: '📁', color: '#6b7280', isDefault: true, bookmarkCount: 0 },
+      { id: 'development', name: 'Development', icon: '💻', color: '#3b82f6', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.development, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'shopping', name: 'Shopping', icon: '🛒', color: '#10b981', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.shopping, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'social', name: 'Social Media', icon: '💬', color: '#8b5cf6', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.social, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'news', name: 'News', icon: '📰', color: '#ef4444', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.news, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'entertainment', name: 'Entertainment', icon: '🎬', color: '#f59e0b', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.entertainment, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'work', name: 'Work', icon: '💼', color: '#6366f1', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.work, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'research', name: 'Research', icon: '🔬', color: '#ec4899', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.research, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'finance', name: 'Finance', icon: '💰', color: '#14b8a6', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.finance, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'health', name: 'Health', icon: '🏥', color: '#f43f5e', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.health, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'education', name: 'Education', icon: '📚', color: '#06b6d4', isDefault: true, keywords: DEFAULT_CATEGORY_KEYWORDS.education, bookmarkCount: 0, archivedCount: 0 },
+      { id: 'uncategorized', name: 'Uncategorized', icon: '📁', color: '#6b7280', isDefault: true, keywords: [], bookmarkCount: 0, archivedCount: 0 },
     ];
 
     await this.categories.bulkAdd(defaultCategories);
@@ -196,6 +661,8 @@ export class SmartMarksDB extends Dexie {
       monthlyVisitThreshold: 3,
       quarterlyVisitThreshold: 5,
       autoBookmarkEnabled: true,
+      // v1.3.0: Page details refresh
+      metadataRefreshDays: 30,
     };
 
     await this.settings.add(defaultSettings);
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import publicSuffixList from './fixtures/public_suffix_list.dat?raw';
+import {
+  MULTI_LABEL_SUFFIXES,
+  findMatchingDomainPattern,
+  getPublicSuffix,
+  getRegistrableDomain,
+  getSite,
+  matchesDomainPattern
+} from './domainMatching';
+
+function listedRules(section: 'ICANN' | 'PRIVATE'): Set<string> {
+  const lines = publicSuffixList.split('\n').map(line => line.trim());
+  const start = lines.indexOf(`// ===BEGIN ${section} DOMAINS===`);
+  const end = lines.indexOf(`// ===END ${section} DOMAINS===`);
+  return new Set(lines.slice(start + 1, end).filter(line => line && !line.startsWith('//')));
+}
+
+describe('MULTI_LABEL_SUFFIXES', () => {
+  it('only holds rules from the Public Suffix List', () => {
+    const listed = new Set([...listedRules('ICANN'), ...listedRules('PRIVATE')]);
+    const unlisted = [...MULTI_LABEL_SUFFIXES].filter(suffix => !listed.has(suffix));
+    expect(unlisted).toEqual([]);
+  });
+
+  it('has no wildcard or exception rules', () => {
+    const special = [...MULTI_LABEL_SUFFIXES].filter(suffix => /[*!]/.test(suffix));
+    expect(special).toEqual([]);
+  });
+});
+
+describe('getPublicSuffix', () => {
+  it('prefers the longest listed suffix', () => {
+    expect(getPublicSuffix('news.bbc.co.uk')).toBe('co.uk');
+    expect(getPublicSuffix('someone.github.io')).toBe('github.io');
+  });
+
+  it('falls back to the last label', () => {
+    expect(getPublicSuffix('docs.example.com')).toBe('com');
+    expect(getPublicSuffix('example.dev')).toBe('dev');
+  });
+});
+
+describe('getRegistrableDomain', () => {
+  it('keeps one label in front of the public suffix', () => {
+    expect(getRegistrableDomain('news.bbc.co.uk')).toBe('bbc.co.uk');
+    expect(getRegistrableDomain('a.b.example.com')).toBe('example.com');
+    expect(getRegistrableDomain('example.com')).toBe('example.com');
+    expect(getRegistrableDomain('someone.github.io')).toBe('someone.github.io');
+  });
+
+  it('is undefined for a public suffix', () => {
+    expect(getRegistrableDomain('co.uk')).toBeUndefined();
+    expect(getRegistrableDomain('com')).toBeUndefined();
+    expect(getRegistrableDomain('github.io')).toBeUndefined();
+  });
+});
+
+describe('getSite', () => {
+  it('groups subdomains under their registrable domain', () => {
+    expect(getSite('https://www.docs.example.com/page')).toBe('example.com');
+    expect(getSite('https://shop.example.co.uk/')).toBe('example.co.uk');
+  });
+
+  it('keeps sites on a shared host apart', () => {
+    expect(getSite('https://alice.github.io/')).toBe('alice.github.io');
+    expect(getSite('https://bob.github.io/')).toBe('bob.github.io');
+  });
+
+  it('leaves IP addresses alone and is empty for invalid URLs', () => {
+    expect(getSite('http://192.168.1.10:8080/')).toBe('192.168.1.10');
+    expect(getSite('not a url')).toBe('');
+  });
+});
+
+describe('matchesDomainPattern', () => {
+  it('matches a registrable domain and everything below it', () => {
+    expect(matchesDomainPattern('https://github.com/', 'github.com')).toBe(true);
+    expect(matchesDomainPattern('https://gist.github.com/x', 'github.com')).toBe(true);
+    expect(matchesDomainPattern('https://notgithub.com/', 'github.com')).toBe(false);
+  });
+
+  it('matches a host below the registrable domain exactly', () => {
+    expect(matchesDomainPattern('https://docs.google.com/d/1', 'docs.google.com')).toBe(true);
+    expect(matchesDomainPattern('https://mail.google.com/', 'docs.google.com')).toBe(false);
+    expect(matchesDomainPattern('https://google.com/', 'docs.google.com')).toBe(false);
+  });
+
+  it('matches subdomains only for a wildcard', () => {
+    expect(matchesDomainPattern('https://blog.example.com/', '*.example.com')).toBe(true);
+    expect(matchesDomainPattern('https://example.com/', '*.example.com')).toBe(false);
+  });
+
+  it('matches path prefixes per segment', () => {
+    expect(matchesDomainPattern('https://www.linkedin.com/learning', 'linkedin.com/learning')).toBe(true);
+    expect(matchesDomainPattern('https://linkedin.com/Learning/course/', 'linkedin.com/learning')).toBe(true);
+    expect(matchesDomainPattern('https://linkedin.com/learning-paths', 'linkedin.com/learning')).toBe(false);
+    expect(matchesDomainPattern('https://linkedin.com/in/someone', 'linkedin.com/learning')).toBe(false);
+  });
+
+  it('matches every domain under a bare public suffix', () => {
+    expect(matchesDomainPattern('https://www.gov.uk/', 'gov.uk')).toBe(true);
+    expect(matchesDomainPattern('https://tax.service.gov.uk/', 'gov.uk')).toBe(true);
+    expect(matchesDomainPattern('https://bbc.co.uk/', 'gov.uk')).toBe(false);
+  });
+
+  it('normalizes user-entered patterns', () => {
+    expect(matchesDomainPattern('https://example.com/', 'HTTPS://www.Example.com/')).toBe(true);
+    expect(matchesDomainPattern('https://example.com/', '  ')).toBe(false);
+  });
+
+  it('does not match invalid URLs', () => {
+    expect(matchesDomainPattern('not a url', 'example.com')).toBe(false);
+  });
+});
+
+describe('findMatchingDomainPattern', () => {
+  it('returns the first matching pattern', () => {
+    const patterns = ['example.org', 'docs.google.com', 'google.com'];
+    expect(findMatchingDomainPattern('https://docs.google.com/', patterns)).toBe('docs.google.com');
+    expect(findMatchingDomainPattern('https://example.net/', patterns)).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+import { db, type Bookmark, type CandidateUrl, type ExternalScope } from './db';
+import { RpcError, validateFields, type FieldSpec, type RpcErrorCode } from './messages';
+import { toErrorResponse } from './rpc';
+import { searchBookmarks } from './search';
+import { addBookmark } from './bookmarks';
+import { getAllTags, type TagCount } from './tags';
+import { getTopCandidates } from './candidateTracker';
+
+/// <reference types="chrome"/>
+
+/**
+ * v1.3.0: API for other extensions (chrome.runtime.onMessageExternal)
+ * Documented in docs/EXTERNAL_API.md - bump EXTERNAL_API_VERSION for any
+ * change existing callers would notice, and keep serving older versions
+ * for as long as practical
+ */
+export const EXTERNAL_API_VERSION = 1;
+
+const MAX_LIMIT = 100;
+
+type Empty = Record<string, never>;
+
+// Public shape of a bookmark; internal fields stay out of the schema
+export interface ExternalBookmark {
+  id: string;
+  url: string;
+  title: string;
+  category?: string;
+  tags: string[];
+  folderPath: string[];
+  dateAdded: number;
+  lastVisited?: number;
+  visitCount: number;
+}
+
+// Public shape of an auto-bookmark candidate
+export interface ExternalCandidate {
+  url: string;
+  title: string;
+  domain: string;
+  visitCount: number;
+  weeklyVisits: number;
+  monthlyVisits: number;
+  quarterlyVisits: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface ExternalMessageMap {
+  GET_API_INFO: { request: Empty; response: { apiVersion: number; scopes: ExternalScope[] } };
+  SEARCH_BOOKMARKS: {
+    request: { query: string; category?: string; tags?: string[]; limit?: number };
+    response: { results: { bookmark: ExternalBookmark; score: number }[] };
+  };
+  ADD_BOOKMARK: {
+    request: { url: string; title?: string; category?: string; tags?: string[] };
+    response: { bookmark: ExternalBookmark; created: boolean };
+  };
+  GET_TAGS: { request: Empty; response: { tags: TagCount[] } };
+  GET_CANDIDATES: { request: { limit?: number }; response: { candidates: ExternalCandidate[] } };
+}
+
+export type ExternalMessageType = keyof ExternalMessageMap;
+
+// On the wire a request is `{ apiVersion, type, ...request }`
+export type ExternalRequest<T extends ExternalMessageType = ExternalMessageType> =
+  { apiVersion: number; type: T } & ExternalMessageMap[T]['request'];
+
+export type ExternalResponse<T extends ExternalMessageType = ExternalMessageType> =
+  | { apiVersion: number; success: true; data: ExternalMessageMap[T]['response'] }
+  | { apiVersion: number; success: false; error: { code: RpcErrorCode; message: string } };
+
+interface Endpoint<T extends ExternalMessageType> {
+  scope: ExternalScope | null; // null: any allowlisted caller
+  fields: { [K in keyof ExternalMessageMap[T]['request']]-?: FieldSpec };
+  handle: (request: ExternalRequest<T>, scopes: ExternalScope[]) => Promise<ExternalMessageMap[T]['response']>;
+}
+
+function toExternalBookmark(bookmark: Bookmark): ExternalBookmark {
+  return {
+    id: bookmark.id,
+    url: bookmark.url,
+    title: bookmark.title,
+    category: bookmark.category,
+    tags: bookmark.tags,
+    folderPath: bookmark.folderPath ?? [],
+    dateAdded: bookmark.dateAdded,
+    lastVisited: bookmark.lastVisited,
+    visitCount: bookmark.visitCount
+  };
+}
+
+function toExternalCandidate(candidate: CandidateUrl): ExternalCandidate {
+  return {
+    url: candidate.url,
+    title: candidate.title,
+    domain: candidate.domain,
+    visitCount: candidate.visitCount,
+    weeklyVisits: candidate.weeklyVisits,
+    monthlyVisits: candidate.monthlyVisits,
+    quarterlyVisits: candidate.quarterlyVisits,
+    firstSeen: candidate.firstSeen,
+    lastSeen: candidate.lastSeen
+  };
+}
+
+function clampLimit(limit: number | undefined, fallback: number): number {
+  return Math.min(Math.max(Math.floor(limit ?? fallback), 1), MAX_LIMIT);
+}
+
+const ENDPOINTS: { [T in ExternalMessageType]: Endpoint<T> } = {
+  GET_API_INFO: {
+    scope: null,
+    fields: {},
+    handle: async (_request, scopes) => ({ apiVersion: EXTERNAL_API_VERSION, scopes })
+  },
+  SEARCH_BOOKMARKS: {
+    scope: 'search',
+    fields: { query: 'string', category: 'string?', tags: 'string[]?', limit: 'number?' },
+    handle: async ({ query, category, tags, limit }) => {
+      const results = await searchBookmarks({ query, category, tags, limit: clampLimit(limit, 20) });
+      return {
+        results: results.map(result => ({ bookmark: toExternalBookmark(result.bookmark), score: result.score }))
+      };
+    }
+  },
+  ADD_BOOKMARK: {
+    scope: 'add',
+    fields: { url: 'string', title: 'string?', category: 'string?', tags: 'string[]?' },
+    handle: async ({ url, title, category, tags }) => {
+      let protocol: string;
+      try {
+        protocol = new URL(url).protocol;
+      } catch {
+        throw new RpcError('INVALID_REQUEST', `ADD_BOOKMARK: invalid url ${url}`);
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new RpcError('INVALID_REQUEST', 'ADD_BOOKMARK: only http and https URLs can be bookmarked');
+      }
+      if (category && !(await db.categories.get(category))) {
+        throw new RpcError('INVALID_REQUEST', `ADD_BOOKMARK: unknown category ${category}`);
+      }
+
+      const { bookmark, created } = await addBookmark(
+        { url, title, category, tags },
+        { cause: 'user', reason: 'Added by another extension' }
+      );
+      return { bookmark: toExternalBookmark(bookmark), created };
+    }
+  },
+  GET_TAGS: {
+    scope: 'tags',
+    fields: {},
+    handle: async () => ({ tags: await getAllTags() })
+  },
+  GET_CANDIDATES: {
+    scope: 'candidates',
+    fields: { limit: 'number?' },
+    handle: async ({ limit }) => {
+      const candidates = await getTopCandidates(clampLimit(limit, 10));
+      return { candidates: candidates.map(toExternalCandidate) };
+    }
+  }
+};
+
+/**
+ * Check a request from another extension and run it
+ * The caller must be on the allowlist in Settings and hold the endpoint's scope
+ */
+async function handleExternalRequest(message: unknown, sender: chrome.runtime.MessageSender): Promise<ExternalResponse> {
+  if (typeof message !== 'object' || message === null) {
+    throw new RpcError('INVALID_REQUEST', 'Request must be an object');
+  }
+
+  const { apiVersion, type } = message as { apiVersion?: unknown; type?: unknown };
+  if (apiVersion !== EXTERNAL_API_VERSION) {
+    throw new RpcError(
+      'UNSUPPORTED_VERSION',
+      `Unsupported apiVersion ${String(apiVersion)}, this version of SmartMarks speaks ${EXTERNAL_API_VERSION}`
+    );
+  }
+  if (typeof type !== 'string' || !Object.hasOwn(ENDPOINTS, type)) {
+    throw new RpcError('UNKNOWN_TYPE', `Unknown request type: ${String(type)}`);
+  }
+
+  const settings = await db.settings.get('local');
+  const client = settings?.externalClients?.find(c => c.extensionId === sender.id);
+  if (!sender.id || !client) {
+    throw new RpcError('FORBIDDEN', `Extension ${sender.id ?? '(unknown)'} is not allowed to use SmartMarks`);
+  }
+
+  const endpoint = ENDPOINTS[type as ExternalMessageType] as unknown as Endpoint<ExternalMessageType>;
+  if (endpoint.scope && !client.scopes.includes(endpoint.scope)) {
+    throw new RpcError('FORBIDDEN', `${type} needs the "${endpoint.scope}" scope`);
+  }
+
+  validateFields(type, endpoint.fields, message);
+  const data = await endpoint.handle(message as ExternalRequest, client.scopes);
+  return { apiVersion: EXTERNAL_API_VERSION, success: true, data };
+}
+
+/**
+ * chrome.runtime.onMessageExternal listener
+ */
+export function handleExternalMessage(
+  message: unknown,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: ExternalResponse) => void
+): boolean {
+  handleExternalRequest(message, sender)
+    .catch(error => {
+      if (!(error instanceof RpcError)) {
+        console.error(`External request from ${sender.id} failed:`, error);
+      }
+      return { apiVersion: EXTERNAL_API_VERSION, ...toErrorResponse(error) } as ExternalResponse;
+    })
+    .then(sendResponse);
+  return true;
+}
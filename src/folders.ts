@@ -0,0 +1,149 @@
+import { db, type Bookmark } from './db';
+
+/// <reference types="chrome"/>
+
+export interface BookmarkFolder {
+  id: string;
+  title: string;
+  path: string[];
+}
+
+/**
+ * Build a map of every Chrome folder id to its path of folder titles
+ * The invisible root node is skipped, so paths start at e.g. "Bookmarks bar"
+ */
+export async function getFolderPathMap(): Promise<Map<string, string[]>> {
+  const tree = await chrome.bookmarks.getTree();
+  const paths = new Map<string, string[]>();
+
+  function traverse(node: chrome.bookmarks.BookmarkTreeNode, path: string[]) {
+    if (node.url) return;
+
+    const nodePath = node.parentId === undefined ? [] : [...path, node.title];
+    paths.set(node.id, nodePath);
+    node.children?.forEach(child => traverse(child, nodePath));
+  }
+
+  tree.forEach(root => traverse(root, []));
+  return paths;
+}
+
+/**
+ * Get the folder path for a single folder by walking up its ancestors
+ */
+export async function getFolderPath(folderId: string): Promise<string[]> {
+  const path: string[] = [];
+  let currentId: string | undefined = folderId;
+
+  while (currentId) {
+    const [node]: chrome.bookmarks.BookmarkTreeNode[] = await chrome.bookmarks.get(currentId);
+    if (!node || node.parentId === undefined) break; // Reached the root
+    path.unshift(node.title);
+    currentId = node.parentId;
+  }
+
+  return path;
+}
+
+/**
+ * List all Chrome bookmark folders (for folder pickers)
+ */
+export async function listFolders(): Promise<BookmarkFolder[]> {
+  const paths = await getFolderPathMap();
+  const folders: BookmarkFolder[] = [];
+
+  for (const [id, path] of paths) {
+    if (path.length === 0) continue; // Root node can't hold bookmarks
+    folders.push({ id, title: path[path.length - 1], path });
+  }
+
+  return folders.sort((a, b) => a.path.join('/').localeCompare(b.path.join('/')));
+}
+
+/**
+ * Format a folder path for display
+ */
+export function formatFolderPath(path?: string[]): string {
+  return path && path.length > 0 ? path.join(' › ') : '';
+}
+
+/**
+ * Refresh parentId, index and folder path of the bookmarks directly inside a folder
+ * Called when children are added, removed, moved or reordered, since that
+ * shifts the index of every sibling
+ */
+export async function refreshFolderChildren(folderId: string): Promise<void> {
+  let children: chrome.bookmarks.BookmarkTreeNode[];
+  try {
+    children = await chrome.bookmarks.getChildren(folderId);
+  } catch {
+    return; // Folder was removed
+  }
+
+  const folderPath = await getFolderPath(folderId);
+  const updates = children
+    .filter(child => child.url)
+    .map(child => ({
+      key: child.id,
+      changes: {
+        parentId: folderId,
+        index: child.index,
+        folderPath
+      } as Partial<Bookmark>
+    }));
+
+  if (updates.length > 0) {
+    await db.bookmarks.bulkUpdate(updates);
+  }
+}
+
+/**
+ * Refresh folder paths for every bookmark below a folder
+ * Needed when a folder is renamed or moved, which changes the path of its whole subtree
+ */
+export async function refreshFolderSubtree(folderId: string): Promise<void> {
+  let subtree: chrome.bookmarks.BookmarkTreeNode[];
+  try {
+    subtree = await chrome.bookmarks.getSubTree(folderId);
+  } catch {
+    return; // Folder was removed
+  }
+
+  const basePath = await getFolderPath(folderId);
+  const updates: Array<{ key: string; changes: Partial<Bookmark> }> = [];
+
+  function traverse(node: chrome.bookmarks.BookmarkTreeNode, path: string[]) {
+    for (const child of node.children ?? []) {
+      if (child.url) {
+        updates.push({
+          key: child.id,
+          changes: { parentId: node.id, index: child.index, folderPath: path }
+        });
+      } else {
+        traverse(child, [...path, child.title]);
+      }
+    }
+  }
+
+  subtree.forEach(node => traverse(node, basePath));
+
+  if (updates.length > 0) {
+    await db.bookmarks.bulkUpdate(updates);
+  }
+}
+
+/**
+ * Move a bookmark to a different Chrome folder
+ * The onMoved listener in the background keeps SmartMarksDB in sync,
+ * but the local row is updated right away so the UI doesn't lag
+ */
+export async function moveBookmarkToFolder(bookmarkId: string, folderId: string): Promise<void> {
+  const moved = await chrome.bookmarks.move(bookmarkId, { parentId: folderId });
+  const folderPath = await getFolderPath(folderId);
+
+  await db.bookmarks.update(bookmarkId, {
+    parentId: folderId,
+    index: moved.index,
+    folderPath
+  });
+}
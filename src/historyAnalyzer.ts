@@ -1,8 +1,13 @@
 import { db, type Bookmark, type CandidateUrl } from './db';
-import { categorizeBookmark, normalizeURL, generateContentHash } from './categorization';
+import { normalizeURL, generateContentHash } from './categorization';
+import { extractDomain, findMatchingDomainPattern } from './domainMatching';
+import { assignCategory } from './categories';
 import { shouldExcludeUrl } from './naturalLanguageParser';
 import { loadCheckpoint, saveCheckpoint, clearCheckpoint } from './checkpoints';
 import { hasPermission } from './utils';
+import { logActivity, jobOrigin, type ActivityOrigin } from './activityLog';
+import { whileCreatingBookmarks } from './ownBookmarks';
+import { getFolderPath } from './folders';
 
 /// <reference types="chrome"/>
 
@@ -27,6 +32,7 @@ interface AnalysisCheckpoint {
   status: 'running' | 'completed' | 'failed';
   lastProcessedIndex?: number;
   urlStats?: HistoryStats[];
+  stats?: Record<string, number>;
 }
 
 const CHUNK_SIZE = 50; // Process 50 URLs at a time
@@ -43,18 +49,6 @@ function getTimeWindows() {
   return { now, oneWeekAgo, oneMonthAgo, oneQuarterAgo };
 }
 
-/**
- * Extract domain from URL
- */
-function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.replace(/^www\./, '').toLowerCase();
-  } catch {
-    return '';
-  }
-}
-
 /**
  * Check if URL meets threshold for auto-bookmarking
  */
@@ -148,10 +142,10 @@ async function isAlreadyBookmarked(normalizedUrl: string): Promise<boolean> {
 /**
  * Check if URL is excluded by settings or natural language rules
  */
-async function isExcluded(url: string, title: string, domain: string): Promise<boolean> {
+async function isExcluded(url: string, title: string): Promise<boolean> {
   // Check settings excluded domains
   const settings = await db.settings.get('local');
-  if (settings?.excludedDomains.some(d => domain.includes(d))) {
+  if (findMatchingDomainPattern(url, settings?.excludedDomains)) {
     return true;
   }
 
@@ -163,47 +157,41 @@ async function isExcluded(url: string, title: string, domain: string): Promise<b
 /**
  * Create a Chrome bookmark and IndexedDB entry from history stats
  */
-async function createBookmarkFromStats(stats: HistoryStats): Promise<string | null> {
+async function createBookmarkFromStats(stats: HistoryStats, origin: ActivityOrigin): Promise<string | null> {
   try {
-    // Create Chrome bookmark
-    const chromeBookmark = await chrome.bookmarks.create({
-      title: stats.title,
-      url: stats.url
-    });
-
-    // Create IndexedDB entry
-    const bookmark: Bookmark = {
-      id: chromeBookmark.id,
-      url: stats.url,
-      title: stats.title,
-      tags: ['auto-created'],
-      dateAdded: Date.now(),
-      lastVisited: stats.lastVisit,
-      visitCount: stats.totalVisits,
-      isPinned: false,
-      isArchived: false,
-      metadata: {
-        contentHash: generateContentHash(stats.url)
-      }
-    };
-
-    // Auto-categorize
-    const result = categorizeBookmark(bookmark);
-    if (result.confidence >= 0.5) {
-      bookmark.category = result.category;
-    }
+    // Create Chrome bookmark; stored here rather than by the onCreated listener
+    const chromeBookmark = await whileCreatingBookmarks([stats.url], async () => {
+      const node = await chrome.bookmarks.create({
+        title: stats.title,
+        url: stats.url
+      });
+
+      // Create IndexedDB entry
+      const bookmark: Bookmark = {
+        id: node.id,
+        url: stats.url,
+        title: stats.title,
+        tags: ['auto-created'],
+        dateAdded: node.dateAdded ?? Date.now(),
+        lastVisited: stats.lastVisit,
+        visitCount: stats.totalVisits,
+        isPinned: false,
+        isArchived: false,
+        parentId: node.parentId,
+        index: node.index,
+        folderPath: node.parentId ? await getFolderPath(node.parentId) : [],
+        metadata: {
+          contentHash: generateContentHash(stats.url)
+        }
+      };
 
-    await db.bookmarks.add(bookmark);
+      // Auto-categorize
+      await assignCategory(bookmark);
 
-    // Update category count
-    if (bookmark.category) {
-      const category = await db.categories.get(bookmark.category);
-      if (category) {
-        await db.categories.update(bookmark.category, {
-          bookmarkCount: category.bookmarkCount + 1
-        });
-      }
-    }
+      await db.bookmarks.add(bookmark);
+      await logActivity('create', undefined, bookmark, origin);
+      return node;
+    });
 
     console.log(`Auto-created bookmark: ${stats.title} (${stats.domain})`);
     return chromeBookmark.id;
@@ -252,26 +240,25 @@ async function addToCandidate(stats: HistoryStats): Promise<void> {
 }
 
 /**
- * Main entry point: Analyze existing browsing history
- * Creates bookmarks for frequently visited URLs
+ * Main entry point: Analyze existing browsing history, one chunk per call
+ * Creates bookmarks for frequently visited URLs. Job step for the
+ * 'historyAnalysis' job (see jobRunner.ts); returns true while there is more to do
  */
-export async function analyzeExistingHistory(): Promise<{
-  analyzed: number;
-  bookmarksCreated: number;
-  candidatesAdded: number;
-}> {
+export async function analyzeHistoryNextChunk(): Promise<boolean> {
   // Check history permission
   const hasHistoryPermission = await hasPermission('history');
   if (!hasHistoryPermission) {
     console.log('History permission not granted, skipping analysis');
-    return { analyzed: 0, bookmarksCreated: 0, candidatesAdded: 0 };
+    await clearCheckpoint('historyAnalysis');
+    return false;
   }
 
   // Get settings
   const settings = await db.settings.get('local');
   if (!settings || !settings.autoBookmarkEnabled) {
     console.log('Auto-bookmarking disabled');
-    return { analyzed: 0, bookmarksCreated: 0, candidatesAdded: 0 };
+    await clearCheckpoint('historyAnalysis');
+    return false;
   }
 
   const { weeklyVisitThreshold, monthlyVisitThreshold, quarterlyVisitThreshold } = settings;
@@ -308,7 +295,8 @@ export async function analyzeExistingHistory(): Promise<{
       processedCount: 0,
       status: 'running',
       lastProcessedIndex: 0,
-      urlStats
+      urlStats,
+      stats: { bookmarksCreated: 0, candidatesAdded: 0 }
     };
     await saveCheckpoint(checkpoint);
   }
@@ -316,8 +304,8 @@ export async function analyzeExistingHistory(): Promise<{
   const startIndex = checkpoint.lastProcessedIndex || 0;
   const endIndex = Math.min(startIndex + CHUNK_SIZE, urlStats.length);
 
-  let bookmarksCreated = 0;
-  let candidatesAdded = 0;
+  // Totals across chunks, for the completion log
+  const totals = checkpoint.stats ?? { bookmarksCreated: 0, candidatesAdded: 0 };
 
   // Process chunk
   for (let i = startIndex; i < endIndex; i++) {
@@ -330,21 +318,24 @@ export async function analyzeExistingHistory(): Promise<{
     }
 
     // Skip if excluded
-    if (await isExcluded(stats.url, stats.title, stats.domain)) {
+    if (await isExcluded(stats.url, stats.title)) {
       checkpoint.processedCount++;
       continue;
     }
 
     // Check if meets threshold
     if (meetsThreshold(stats, weeklyVisitThreshold, monthlyVisitThreshold, quarterlyVisitThreshold)) {
-      const bookmarkId = await createBookmarkFromStats(stats);
+      const bookmarkId = await createBookmarkFromStats(
+        stats,
+        jobOrigin(checkpoint, `Visited ${stats.totalVisits} times in the last 90 days`)
+      );
       if (bookmarkId) {
-        bookmarksCreated++;
+        totals.bookmarksCreated++;
       }
     } else {
       // Add to candidates for future tracking
       await addToCandidate(stats);
-      candidatesAdded++;
+      totals.candidatesAdded++;
     }
 
     checkpoint.processedCount++;
@@ -352,30 +343,25 @@ export async function analyzeExistingHistory(): Promise<{
 
   // Update checkpoint
   checkpoint.lastProcessedIndex = endIndex;
+  checkpoint.stats = totals;
   await saveCheckpoint(checkpoint);
 
   // Check if more to process
   if (endIndex < urlStats.length) {
-    // Schedule next chunk
-    console.log(`History analysis: ${endIndex}/${urlStats.length} processed, scheduling next chunk`);
-    setTimeout(() => analyzeExistingHistory(), 100);
-  } else {
-    // All done
-    await clearCheckpoint('historyAnalysis');
+    console.log(`History analysis: ${endIndex}/${urlStats.length} processed`);
+    return true;
+  }
 
-    // Update settings with analysis timestamp
-    await db.settings.update('local', {
-      historyAnalyzedAt: Date.now()
-    });
+  // All done
+  await clearCheckpoint('historyAnalysis');
 
-    console.log(`History analysis complete: ${bookmarksCreated} bookmarks created, ${candidatesAdded} candidates added`);
-  }
+  // Update settings with analysis timestamp
+  await db.settings.update('local', {
+    historyAnalyzedAt: Date.now()
+  });
 
-  return {
-    analyzed: checkpoint.processedCount,
-    bookmarksCreated,
-    candidatesAdded
-  };
+  console.log(`History analysis complete: ${totals.bookmarksCreated} bookmarks created, ${totals.candidatesAdded} candidates added`);
+  return false;
 }
 
 /**
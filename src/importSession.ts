@@ -0,0 +1,145 @@
+import { db, type ProcessingCheckpoint } from './db';
+import { createCategoryAssigner, categorizationReason } from './categories';
+import { MIN_CONFIDENCE } from './categorization';
+import { batchExtractMetadata } from './metadata';
+import { applyFetchResult } from './metadataBackfill';
+import { hasHostAccess, isWebUrl } from './utils';
+import { loadCheckpoint, saveCheckpoint, clearCheckpoint } from './checkpoints';
+import { runJob } from './jobRunner';
+import { logActivity, jobOrigin } from './activityLog';
+
+/// <reference types="chrome"/>
+
+const CHUNK_SIZE = 100; // Process 100 imported bookmarks at a time
+
+/**
+ * Start collecting bookmarks for an import session
+ * Called from chrome.bookmarks.onImportBegan
+ */
+export async function beginImportSession(): Promise<void> {
+  const existing = await loadCheckpoint('import');
+  if (existing?.isCollecting) {
+    return; // Already collecting (service worker restarted mid-import)
+  }
+
+  const checkpoint: ProcessingCheckpoint = {
+    jobType: 'import',
+    startTime: Date.now(),
+    totalItems: 0,
+    processedCount: 0,
+    status: 'running',
+    lastProcessedIndex: 0,
+    itemIds: [],
+    isCollecting: true,
+    stats: { categorized: 0 }
+  };
+  await saveCheckpoint(checkpoint);
+  console.log('Bookmark import started, deferring per-bookmark processing');
+}
+
+/**
+ * Check if Chrome is currently importing bookmarks
+ */
+export async function isImportInProgress(): Promise<boolean> {
+  const checkpoint = await loadCheckpoint('import');
+  return !!checkpoint?.isCollecting;
+}
+
+/**
+ * Remember a bookmark created during the import for batch processing later
+ */
+export async function recordImportedBookmark(bookmarkId: string): Promise<void> {
+  // modify() runs in its own transaction, so concurrent onCreated events don't lose ids
+  await db.checkpoints
+    .where('jobType')
+    .equals('import')
+    .and(checkpoint => checkpoint.status === 'running' && !!checkpoint.isCollecting)
+    .modify(checkpoint => {
+      checkpoint.itemIds = [...(checkpoint.itemIds ?? []), bookmarkId];
+    });
+}
+
+/**
+ * Stop collecting and process everything that was imported
+ * Called from chrome.bookmarks.onImportEnded
+ */
+export async function endImportSession(): Promise<void> {
+  const checkpoint = await loadCheckpoint('import');
+  if (!checkpoint?.isCollecting) return;
+
+  checkpoint.isCollecting = false;
+  checkpoint.totalItems = checkpoint.itemIds?.length ?? 0;
+  await saveCheckpoint(checkpoint);
+
+  console.log(`Bookmark import ended: ${checkpoint.totalItems} bookmarks to process`);
+  await runJob('import');
+}
+
+/**
+ * Categorize and fetch metadata for the next chunk of imported bookmarks
+ * Job step for the 'import' job (see jobRunner.ts), resumable from the 'import'
+ * checkpoint; shows a single summary notification at the end
+ */
+export async function processImportedBookmarks(): Promise<boolean> {
+  const checkpoint = await loadCheckpoint('import');
+  if (!checkpoint || checkpoint.isCollecting) return false;
+
+  const itemIds = checkpoint.itemIds ?? [];
+  const startIndex = checkpoint.lastProcessedIndex || 0;
+  const endIndex = Math.min(startIndex + CHUNK_SIZE, itemIds.length);
+  const stats = checkpoint.stats ?? { categorized: 0 };
+
+  const bookmarks = (await db.bookmarks.bulkGet(itemIds.slice(startIndex, endIndex)))
+    .filter(b => b !== undefined);
+
+  // Categorize the chunk
+  const assign = await createCategoryAssigner();
+  for (const bookmark of bookmarks) {
+    if (bookmark.categoryLocked || (bookmark.category && bookmark.category !== 'uncategorized')) continue;
+
+    const before = { ...bookmark };
+    const result = assign(bookmark);
+    if (result.confidence >= MIN_CONFIDENCE) {
+      await db.bookmarks.update(bookmark.id, {
+        category: bookmark.category,
+        categorization: bookmark.categorization
+      });
+      await logActivity('categorize', before, bookmark, jobOrigin(checkpoint, categorizationReason(result)));
+      stats.categorized++;
+    }
+  }
+
+  // Fetch metadata for the chunk (batched to avoid a fetch storm)
+  const fetchable = (await hasHostAccess()) ? bookmarks.filter(b => isWebUrl(b.url)) : [];
+  const results = await batchExtractMetadata(fetchable.map(b => b.url));
+  for (const bookmark of bookmarks) {
+    const result = results.get(bookmark.url);
+    if (result) {
+      await db.bookmarks.update(bookmark.id, { metadata: applyFetchResult(bookmark.metadata, result) });
+    }
+  }
+
+  checkpoint.processedCount += endIndex - startIndex;
+  checkpoint.lastProcessedIndex = endIndex;
+  checkpoint.stats = stats;
+  await saveCheckpoint(checkpoint);
+
+  if (endIndex < itemIds.length) {
+    return true;
+  }
+
+  await clearCheckpoint('import');
+  console.log(`Import processing complete: ${checkpoint.totalItems} bookmarks, ${stats.categorized} categorized`);
+
+  if (checkpoint.totalItems > 0) {
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon-48.png',
+      title: 'SmartMarks',
+      message: `Imported ${checkpoint.totalItems} bookmarks, ${stats.categorized} categorized automatically`,
+      silent: true
+    });
+  }
+
+  return false;
+}
@@ -0,0 +1,114 @@
+import { liveQuery } from 'dexie';
+import { db, type ProcessingCheckpoint } from './db';
+import { getCheckpointProgress } from './checkpoints';
+import { pauseJob, resumeJob, cancelJob, type JobType } from './jobRunner';
+
+/// <reference types="chrome"/>
+
+export const JOB_MONITOR_PORT = 'job-monitor';
+
+export interface JobProgress {
+  jobType: JobType;
+  status: ProcessingCheckpoint['status'];
+  isCollecting: boolean; // Import still in progress, so the total is still growing
+  processedCount: number;
+  totalItems: number;
+  percent: number;
+  startTime: number;
+  etaMs?: number;        // Only while running and once there is a rate to go by
+  retryCount: number;
+  lastError?: string;
+}
+
+// Background -> Options
+export type JobMonitorUpdate =
+  | { type: 'JOBS'; jobs: JobProgress[] }
+  | { type: 'JOB_CONTROL_FAILED'; jobType: JobType; error: string };
+
+// Options -> background
+export interface JobControlRequest {
+  action: 'pause' | 'resume' | 'cancel';
+  jobType: JobType;
+}
+
+/**
+ * Estimate the time left from the average rate since the job started
+ */
+function estimateRemaining(checkpoint: ProcessingCheckpoint, now: number): number | undefined {
+  if (checkpoint.status !== 'running' || checkpoint.processedCount === 0) return undefined;
+
+  const msPerItem = (now - checkpoint.startTime) / checkpoint.processedCount;
+  return Math.max(0, Math.round((checkpoint.totalItems - checkpoint.processedCount) * msPerItem));
+}
+
+/**
+ * Summarize the latest checkpoint of each job type that still needs attention
+ * (running, paused or failed); completed and cancelled jobs drop out of the list
+ */
+function summarizeJobs(checkpoints: ProcessingCheckpoint[], now: number = Date.now()): JobProgress[] {
+  const latest = new Map<JobType, ProcessingCheckpoint>();
+  for (const checkpoint of checkpoints) {
+    const current = latest.get(checkpoint.jobType);
+    if (!current || checkpoint.startTime > current.startTime) {
+      latest.set(checkpoint.jobType, checkpoint);
+    }
+  }
+
+  return Array.from(latest.values())
+    .filter(checkpoint => ['running', 'paused', 'failed'].includes(checkpoint.status))
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(checkpoint => ({
+      jobType: checkpoint.jobType,
+      status: checkpoint.status,
+      isCollecting: !!checkpoint.isCollecting,
+      processedCount: checkpoint.processedCount,
+      totalItems: checkpoint.totalItems,
+      percent: getCheckpointProgress(checkpoint),
+      startTime: checkpoint.startTime,
+      etaMs: estimateRemaining(checkpoint, now),
+      retryCount: checkpoint.retryCount ?? 0,
+      lastError: checkpoint.lastError
+    }));
+}
+
+async function handleControlRequest(request: JobControlRequest): Promise<void> {
+  if (request.action === 'pause') {
+    await pauseJob(request.jobType);
+  } else if (request.action === 'resume') {
+    await resumeJob(request.jobType);
+  } else if (request.action === 'cancel') {
+    await cancelJob(request.jobType);
+  }
+}
+
+/**
+ * Serve a job monitor connection from the Options page
+ * Pushes the job list whenever a checkpoint changes, and applies pause,
+ * resume and cancel requests sent back over the port
+ */
+export function connectJobMonitor(port: chrome.runtime.Port): void {
+  const subscription = liveQuery(() => db.checkpoints.toArray()).subscribe({
+    next: checkpoints => {
+      const update: JobMonitorUpdate = { type: 'JOBS', jobs: summarizeJobs(checkpoints) };
+      port.postMessage(update);
+    },
+    error: error => {
+      console.error('Job monitor query failed:', error);
+    }
+  });
+
+  port.onMessage.addListener((request: JobControlRequest) => {
+    handleControlRequest(request).catch(error => {
+      const update: JobMonitorUpdate = {
+        type: 'JOB_CONTROL_FAILED',
+        jobType: request.jobType,
+        error: error.message
+      };
+      port.postMessage(update);
+    });
+  });
+
+  port.onDisconnect.addListener(() => {
+    subscription.unsubscribe();
+  });
+}
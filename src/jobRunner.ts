@@ -0,0 +1,182 @@
+import { db, type ProcessingCheckpoint } from './db';
+import { loadCheckpoint, loadLatestCheckpoint, failCheckpoint, getRunningJobTypes } from './checkpoints';
+
+/// <reference types="chrome"/>
+
+export type JobType = ProcessingCheckpoint['jobType'];
+
+/**
+ * Process one chunk of a job, keeping progress in the job's checkpoint
+ * Returns true while there is more to do
+ */
+export type JobStep = () => Promise<boolean>;
+
+const JOB_ALARM_PREFIX = 'job:';
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MINUTES = 1;  // Doubles on every retry
+const CONTINUATION_DELAY_MINUTES = 0.5; // Chrome's minimum alarm delay
+const RUN_BUDGET_MS = 20 * 1000;     // Hand over to an alarm well before the worker idles out
+
+const jobs = new Map<JobType, JobStep>();
+
+/**
+ * Register the step function for a job type
+ */
+export function registerJob(jobType: JobType, step: JobStep): void {
+  jobs.set(jobType, step);
+}
+
+function alarmName(jobType: JobType): string {
+  return `${JOB_ALARM_PREFIX}${jobType}`;
+}
+
+/**
+ * Run a job chunk by chunk until it finishes or its time budget runs out
+ *
+ * Only one copy of a job runs at a time: a Web Lock is held while stepping, and a
+ * call that finds the lock taken returns straight away. Before every chunk a
+ * continuation alarm is (re)armed, so if the service worker is killed mid-job the
+ * alarm wakes it and the job resumes from its checkpoint. When a chunk throws,
+ * the failure is recorded with failCheckpoint() and the job is retried with
+ * exponential backoff; after MAX_RETRIES the checkpoint is marked failed.
+ */
+export async function runJob(jobType: JobType): Promise<void> {
+  const step = jobs.get(jobType);
+  if (!step) {
+    console.warn(`No job registered for ${jobType}`);
+    return;
+  }
+
+  await navigator.locks.request(`smartmarks-job:${jobType}`, { ifAvailable: true }, async lock => {
+    if (!lock) {
+      console.log(`Job ${jobType} is already running`);
+      return;
+    }
+
+    // A paused job keeps its checkpoint; starting over would create a second one
+    if (await loadLatestCheckpoint(jobType, ['paused'])) {
+      console.log(`Job ${jobType} is paused`);
+      return;
+    }
+
+    const deadline = Date.now() + RUN_BUDGET_MS;
+
+    try {
+      let hasMore = true;
+      while (hasMore) {
+        if (Date.now() >= deadline) {
+          // Out of budget: the armed continuation alarm picks the job up again
+          console.log(`Job ${jobType} yielding, continuing from checkpoint shortly`);
+          return;
+        }
+
+        await chrome.alarms.create(alarmName(jobType), { delayInMinutes: CONTINUATION_DELAY_MINUTES });
+        hasMore = await step();
+
+        // Paused or cancelled from the job monitor while the chunk ran
+        if (hasMore && !(await loadCheckpoint(jobType))) {
+          console.log(`Job ${jobType} stopped`);
+          break;
+        }
+      }
+
+      await chrome.alarms.clear(alarmName(jobType));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const checkpoint = await failCheckpoint(jobType, message, MAX_RETRIES);
+
+      if (checkpoint?.status === 'running') {
+        const delayInMinutes = RETRY_BASE_DELAY_MINUTES * 2 ** ((checkpoint.retryCount ?? 1) - 1);
+        console.warn(`Job ${jobType} failed (attempt ${checkpoint.retryCount}), retrying in ${delayInMinutes} min:`, error);
+        await chrome.alarms.create(alarmName(jobType), { delayInMinutes });
+      } else {
+        console.error(`Job ${jobType} failed:`, error);
+        await chrome.alarms.clear(alarmName(jobType));
+      }
+    }
+  });
+}
+
+/**
+ * Handle a continuation or retry alarm
+ * Returns false if the alarm doesn't belong to the job runner
+ */
+export async function handleJobAlarm(name: string): Promise<boolean> {
+  if (!name.startsWith(JOB_ALARM_PREFIX)) return false;
+
+  await runJob(name.slice(JOB_ALARM_PREFIX.length) as JobType);
+  return true;
+}
+
+/**
+ * Resume every job that has a running checkpoint
+ * Jobs waiting on a retry alarm are left to it, so backoff isn't skipped
+ */
+export async function resumeJobs(): Promise<void> {
+  for (const jobType of await getRunningJobTypes()) {
+    if (!jobs.has(jobType)) continue;
+
+    const checkpoint = await loadCheckpoint(jobType);
+    if (checkpoint?.retryCount && await chrome.alarms.get(alarmName(jobType))) continue;
+
+    console.log(`Resuming incomplete ${jobType} job`);
+    await runJob(jobType);
+  }
+}
+
+/**
+ * Pause a running job after its current chunk
+ */
+export async function pauseJob(jobType: JobType): Promise<void> {
+  const checkpoint = await loadCheckpoint(jobType);
+  if (!checkpoint?.id) {
+    throw new Error(`No running ${jobType} job to pause`);
+  }
+  if (checkpoint.isCollecting) {
+    throw new Error('An import in progress cannot be paused');
+  }
+
+  await db.checkpoints.update(checkpoint.id, { status: 'paused' });
+  await chrome.alarms.clear(alarmName(jobType));
+  console.log(`Job ${jobType} paused`);
+}
+
+/**
+ * Resume a paused job, or retry a failed one, from its checkpoint
+ */
+export async function resumeJob(jobType: JobType): Promise<void> {
+  const checkpoint = await loadLatestCheckpoint(jobType, ['paused', 'failed']);
+  if (!checkpoint?.id) {
+    throw new Error(`No paused or failed ${jobType} job to resume`);
+  }
+
+  await db.checkpoints.update(checkpoint.id, {
+    status: 'running',
+    retryCount: 0,
+    lastError: undefined
+  });
+  console.log(`Job ${jobType} resumed`);
+
+  // Don't hold the caller for the whole run
+  runJob(jobType).catch(err => {
+    console.error(`Failed to run resumed ${jobType} job:`, err);
+  });
+}
+
+/**
+ * Cancel a running or paused job
+ * Work already done is kept; the next scheduled run starts from scratch
+ */
+export async function cancelJob(jobType: JobType): Promise<void> {
+  const checkpoint = await loadLatestCheckpoint(jobType, ['running', 'paused']);
+  if (!checkpoint?.id) {
+    throw new Error(`No ${jobType} job to cancel`);
+  }
+  if (checkpoint.isCollecting) {
+    throw new Error('An import in progress cannot be cancelled');
+  }
+
+  await db.checkpoints.update(checkpoint.id, { status: 'cancelled' });
+  await chrome.alarms.clear(alarmName(jobType));
+  console.log(`Job ${jobType} cancelled`);
+}
@@ -0,0 +1,90 @@
+import { db, type Bookmark, type LearnedAssociation } from './db';
+import { learnedPatternsFor } from './categorization';
+import { getSite, matchesDomainPattern } from './domainMatching';
+import { logActivity } from './activityLog';
+import { trainClassifierOn } from './classifier';
+
+/**
+ * Load every learned association, for categorizeBookmark
+ */
+export async function loadLearnedAssociations(): Promise<LearnedAssociation[]> {
+  return db.learnedAssociations.toArray();
+}
+
+/**
+ * Learn from the user moving a bookmark to a different category
+ * The category is remembered for the bookmark's site and its first path
+ * segment, so the next bookmark from the same site gets it too. Moving a
+ * bookmark to Uncategorized forgets everything learned that applies to it instead.
+ */
+export async function recordCorrection(bookmark: Bookmark, category: string): Promise<void> {
+  const patterns = learnedPatternsFor(bookmark.url);
+  if (patterns.length === 0) return;
+
+  await db.transaction('rw', db.learnedAssociations, async () => {
+    // Older associations that also apply to this URL would override the correction
+    await db.learnedAssociations
+      .filter(a => matchesDomainPattern(bookmark.url, a.pattern) && !patterns.includes(a.pattern))
+      .delete();
+
+    if (category === 'uncategorized') {
+      await db.learnedAssociations.bulkDelete(patterns);
+      return;
+    }
+
+    const existing = await db.learnedAssociations.bulkGet(patterns);
+    await db.learnedAssociations.bulkPut(patterns.map((pattern, i) => ({
+      pattern,
+      category,
+      corrections: existing[i]?.category === category ? existing[i]!.corrections + 1 : 1,
+      learnedAt: Date.now()
+    })));
+  });
+}
+
+/**
+ * Other active bookmarks from the same site (subdomains included) that are in
+ * a different category
+ * Locked bookmarks keep their category
+ */
+export async function findSameDomainBookmarks(bookmark: Bookmark): Promise<Bookmark[]> {
+  const site = getSite(bookmark.url);
+  if (!site) return [];
+
+  return db.bookmarks
+    .filter(b =>
+      b.id !== bookmark.id &&
+      !b.isArchived &&
+      !b.categoryLocked &&
+      (b.category ?? 'uncategorized') !== (bookmark.category ?? 'uncategorized') &&
+      matchesDomainPattern(b.url, site)
+    )
+    .toArray();
+}
+
+/**
+ * Give other bookmarks from the same domain the category the user picked for this one
+ * Returns the number of bookmarks recategorized
+ */
+export async function applyCorrectionToDomain(bookmarkId: string): Promise<number> {
+  const bookmark = await db.bookmarks.get(bookmarkId);
+  if (!bookmark?.category) {
+    throw new Error(`Bookmark ${bookmarkId} not found or uncategorized`);
+  }
+
+  const others = await findSameDomainBookmarks(bookmark);
+  for (const other of others) {
+    const changes: Partial<Bookmark> = {
+      category: bookmark.category,
+      categorization: { method: 'manual', confidence: 1, categorizedAt: Date.now() },
+      categoryLocked: true
+    };
+    await db.bookmarks.update(other.id, changes);
+    await logActivity('categorize', other, { ...other, ...changes }, {
+      cause: 'user',
+      reason: `Same site as "${bookmark.title}"`
+    });
+  }
+  await trainClassifierOn(others.map(b => b.id));
+  return others.length;
+}
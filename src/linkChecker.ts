@@ -0,0 +1,166 @@
+import { db, type Bookmark, type LinkHealth } from './db';
+import { loadCheckpoint, saveCheckpoint, clearCheckpoint } from './checkpoints';
+import { updateBookmark } from './bookmarks';
+import { hasHostAccess, isWebUrl } from './utils';
+
+/// <reference types="chrome"/>
+
+const TIMEOUT_MS = 8000;
+const CHUNK_SIZE = 20;
+const CONCURRENT_CHECKS = 10;
+
+// Only active web pages are checked; bookmarklets, chrome:// pages and local
+// files can't be fetched, which doesn't make them broken
+const isCheckable = (b: Bookmark) => !b.isArchived && isWebUrl(b.url);
+
+/**
+ * Check whether a URL still works, following redirects
+ * Tries a HEAD request first and falls back to GET for servers that don't support it
+ */
+export async function checkLink(url: string): Promise<LinkHealth> {
+  if (!isWebUrl(url)) {
+    throw new Error(`Only web pages can be checked: ${url}`);
+  }
+
+  const request = (method: 'HEAD' | 'GET') => fetch(url, {
+    method,
+    redirect: 'follow',
+    cache: 'no-store',
+    signal: AbortSignal.timeout(TIMEOUT_MS)
+  });
+
+  let response: Response;
+  try {
+    response = await request('HEAD');
+    if (response.status === 405 || response.status === 501) {
+      response = await request('GET');
+    }
+  } catch (headError) {
+    // A timeout would only time out again; anything else may be a server that drops HEAD
+    if (headError instanceof DOMException && headError.name === 'TimeoutError') {
+      return { status: 'unreachable', error: 'Timed out', checkedAt: Date.now() };
+    }
+    try {
+      response = await request('GET');
+    } catch (error) {
+      const message = error instanceof DOMException && error.name === 'TimeoutError'
+        ? 'Timed out'
+        : error instanceof Error ? error.message : String(error);
+      return { status: 'unreachable', error: message, checkedAt: Date.now() };
+    }
+  }
+
+  const checkedAt = Date.now();
+  const httpStatus = response.status;
+
+  if (httpStatus >= 500) {
+    return { status: 'serverError', httpStatus, checkedAt };
+  }
+  if (httpStatus >= 400) {
+    return { status: 'clientError', httpStatus, checkedAt };
+  }
+  if (response.redirected && response.url && response.url !== new URL(url).href) {
+    return { status: 'redirected', httpStatus, finalUrl: response.url, checkedAt };
+  }
+  return { status: 'healthy', httpStatus, checkedAt };
+}
+
+/**
+ * Check the links of the next chunk of active web bookmarks (job step, see jobRunner.ts)
+ * Needs the optional all-sites permission; without it pages can't be fetched
+ */
+export async function linkCheckNextChunk(): Promise<boolean> {
+  if (!(await hasHostAccess())) {
+    console.log('Link check skipped: no access to sites');
+    await clearCheckpoint('linkCheck');
+    return false;
+  }
+
+  // Load existing checkpoint or create new one
+  let checkpoint = await loadCheckpoint('linkCheck');
+
+  if (!checkpoint) {
+    const activeCount = await db.bookmarks.filter(isCheckable).count();
+
+    if (activeCount === 0) {
+      console.log('No bookmarks to check');
+      return false;
+    }
+
+    checkpoint = {
+      jobType: 'linkCheck',
+      startTime: Date.now(),
+      totalItems: activeCount,
+      processedCount: 0,
+      status: 'running',
+      stats: {}
+    };
+    await saveCheckpoint(checkpoint);
+    console.log(`Starting link check of ${activeCount} bookmarks`);
+  } else {
+    console.log(`Resuming link check: ${checkpoint.processedCount}/${checkpoint.totalItems}`);
+  }
+
+  const bookmarks = await db.bookmarks
+    .where('id')
+    .above(checkpoint.lastProcessedId ?? '')
+    .filter(isCheckable)
+    .limit(CHUNK_SIZE)
+    .toArray();
+
+  const stats: Record<string, number> = { ...checkpoint.stats };
+
+  for (let i = 0; i < bookmarks.length; i += CONCURRENT_CHECKS) {
+    const batch = bookmarks.slice(i, i + CONCURRENT_CHECKS);
+    const results = await Promise.all(batch.map(bookmark => checkLink(bookmark.url)));
+
+    for (let j = 0; j < batch.length; j++) {
+      const bookmark = batch[j];
+      const linkHealth = results[j];
+
+      // Skip bookmarks whose URL was edited while the check ran
+      await db.transaction('rw', db.bookmarks, async () => {
+        const current = await db.bookmarks.get(bookmark.id);
+        if (current?.url === bookmark.url) {
+          await db.bookmarks.update(bookmark.id, { linkHealth });
+        }
+      });
+
+      stats[linkHealth.status] = (stats[linkHealth.status] || 0) + 1;
+      checkpoint.processedCount++;
+      checkpoint.lastProcessedId = bookmark.id;
+    }
+  }
+  checkpoint.stats = stats;
+
+  if (bookmarks.length < CHUNK_SIZE) {
+    await clearCheckpoint('linkCheck');
+    console.log('Link check complete:', stats);
+    return false;
+  }
+
+  await saveCheckpoint(checkpoint);
+  return true;
+}
+
+/**
+ * Point redirected bookmarks at the URL they redirect to
+ * Returns the number of bookmarks updated
+ */
+export async function applyLinkRedirects(bookmarkIds: string[]): Promise<number> {
+  let updated = 0;
+
+  for (const id of bookmarkIds) {
+    const bookmark = await db.bookmarks.get(id);
+    const finalUrl = bookmark?.linkHealth?.status === 'redirected' ? bookmark.linkHealth.finalUrl : undefined;
+    if (!finalUrl) continue;
+
+    await updateBookmark(id, { url: finalUrl }, { cause: 'user', reason: 'Updated to the address it redirects to' });
+    await db.bookmarks.update(id, {
+      linkHealth: { status: 'healthy', checkedAt: bookmark!.linkHealth!.checkedAt }
+    });
+    updated++;
+  }
+
+  return updated;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { RpcError, validateRequest } from './messages';
+
+function rejection(message: unknown): RpcError {
+  try {
+    validateRequest(message);
+  } catch (error) {
+    expect(error).toBeInstanceOf(RpcError);
+    return error as RpcError;
+  }
+  throw new Error('Request was accepted');
+}
+
+const client = { extensionId: 'abcdefghijklmnop', name: 'Reader', scopes: ['search', 'tags'], addedAt: 1 };
+
+describe('validateRequest', () => {
+  it('accepts well-formed requests', () => {
+    const request = { type: 'DELETE_BOOKMARKS', bookmarkIds: ['1', '2'] };
+    expect(validateRequest(request)).toBe(request);
+    expect(validateRequest({ type: 'GROUP_TABS' })).toEqual({ type: 'GROUP_TABS' });
+  });
+
+  it('rejects anything but an object', () => {
+    for (const message of [null, undefined, 'GROUP_TABS', 42]) {
+      expect(rejection(message).code).toBe('INVALID_REQUEST');
+    }
+  });
+
+  it('rejects unknown and inherited types', () => {
+    expect(rejection({ type: 'DROP_DATABASE' }).code).toBe('UNKNOWN_TYPE');
+    expect(rejection({ type: 'toString' }).code).toBe('UNKNOWN_TYPE');
+    expect(rejection({}).code).toBe('UNKNOWN_TYPE');
+  });
+
+  it('names the field that does not match', () => {
+    const error = rejection({ type: 'DELETE_BOOKMARKS', bookmarkIds: ['1', 2] });
+    expect(error.code).toBe('INVALID_REQUEST');
+    expect(error.message).toBe('DELETE_BOOKMARKS: "bookmarkIds" must be string[]');
+  });
+
+  it('lets optional fields be left out but checks them when given', () => {
+    expect(() => validateRequest({ type: 'GET_TOP_CANDIDATES' })).not.toThrow();
+    expect(() => validateRequest({ type: 'GET_TOP_CANDIDATES', limit: 5 })).not.toThrow();
+    expect(rejection({ type: 'GET_TOP_CANDIDATES', limit: '5' }).message).toContain('"limit"');
+  });
+
+  it('only accepts listed values for enum fields', () => {
+    expect(() => validateRequest({ type: 'RESTORE_BACKUP', backup: {}, mode: 'merge' })).not.toThrow();
+    expect(rejection({ type: 'RESTORE_BACKUP', backup: {}, mode: 'wipe' }).message)
+      .toBe('RESTORE_BACKUP: "mode" must be merge | replace');
+  });
+
+  it('does not take arrays or null for object fields', () => {
+    expect(rejection({ type: 'UPDATE_BOOKMARK', bookmarkId: '1', changes: [] }).code).toBe('INVALID_REQUEST');
+    expect(rejection({ type: 'UPDATE_BOOKMARK', bookmarkId: '1', changes: null }).code).toBe('INVALID_REQUEST');
+  });
+});
+
+describe('validateRequest for UPDATE_SETTINGS', () => {
+  it('accepts changes to settings the UI edits', () => {
+    const changes = {
+      updateFrequency: 'weekly',
+      excludedDomains: ['example.com'],
+      archiveThreshold: 90,
+      enableAI: false,
+      externalClients: [client]
+    };
+    expect(() => validateRequest({ type: 'UPDATE_SETTINGS', changes })).not.toThrow();
+  });
+
+  it('rejects settings the UI may not change', () => {
+    expect(rejection({ type: 'UPDATE_SETTINGS', changes: { isPremium: true } }).message)
+      .toBe('UPDATE_SETTINGS: "changes" can\'t change the "isPremium" setting');
+    expect(rejection({ type: 'UPDATE_SETTINGS', changes: { constructor: {} } }).code).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects settings of the wrong type', () => {
+    expect(rejection({ type: 'UPDATE_SETTINGS', changes: { updateFrequency: 'hourly' } }).message)
+      .toBe('UPDATE_SETTINGS: "changes" setting "updateFrequency" must be realtime | daily | weekly');
+    expect(rejection({ type: 'UPDATE_SETTINGS', changes: { archiveThreshold: '90' } }).code).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects wrongly shaped external clients', () => {
+    for (const externalClients of [
+      client,
+      [{ ...client, extensionId: 1 }],
+      [{ ...client, scopes: ['search', 'delete'] }],
+      [{ ...client, addedAt: undefined }],
+      [null]
+    ]) {
+      const error = rejection({ type: 'UPDATE_SETTINGS', changes: { externalClients } });
+      expect(error.message).toContain('setting "externalClients"');
+    }
+  });
+});
@@ -0,0 +1,276 @@
+import type { CandidateUrl, CategorizationRuleRecord, Category, ExternalScope, Settings } from './db';
+import type { CategoryInput } from './categories';
+import type { CategorizationRuleInput } from './categorizationRules';
+import type { BookmarkChanges } from './bookmarks';
+import type { TabGroupResult, getTabGroupStats } from './tabGrouping';
+import type { getAnalysisStats } from './historyAnalyzer';
+import type { getCandidateStats } from './candidateTracker';
+import type { ReconciliationReport } from './reconciliation';
+import type { SmartMarksBackup, RestoreMode, RestoreReport } from './backup';
+import type { NetscapeImportReport } from './netscapeBookmarks';
+
+type Empty = Record<string, never>;
+
+/**
+ * Every request the UI can send to the background, with the fields it carries
+ * and the data it is answered with
+ * On the wire a request is `{ type, ...request }` and the reply an RpcResponse
+ */
+export interface MessageMap {
+  // Bookmarks
+  TRACK_BOOKMARK_CLICK: { request: { bookmarkId: string }; response: Empty };
+  UPDATE_BOOKMARK: { request: { bookmarkId: string; changes: BookmarkChanges }; response: Empty };
+  DELETE_BOOKMARKS: { request: { bookmarkIds: string[] }; response: { deleted: number } };
+  ARCHIVE_BOOKMARKS: { request: { bookmarkIds: string[] }; response: { updated: number } };
+  RESTORE_BOOKMARKS: { request: { bookmarkIds: string[] }; response: { updated: number } };
+  ADD_TAGS: { request: { bookmarkIds: string[]; tags: string[] }; response: { updated: number } };
+  REMOVE_TAGS: { request: { bookmarkIds: string[]; tags: string[] }; response: { updated: number } };
+  ORGANIZE_INTO_FOLDERS: { request: Empty; response: { moved: number; folders: number } };
+  // v1.3.0: Give other bookmarks from the same domain this bookmark's category
+  APPLY_CATEGORY_TO_DOMAIN: { request: { bookmarkId: string }; response: { updated: number } };
+
+  // v1.2.0: Tab grouping
+  GROUP_TABS: { request: Empty; response: { result: TabGroupResult } };
+  UNGROUP_TABS: { request: Empty; response: { ungrouped: number } };
+  GET_TAB_GROUP_STATS: { request: Empty; response: { stats: Awaited<ReturnType<typeof getTabGroupStats>> } };
+
+  // v1.2.0: History analysis and auto-bookmark candidates
+  ANALYZE_HISTORY: { request: Empty; response: { stats: Awaited<ReturnType<typeof getAnalysisStats>> } };
+  GET_ANALYSIS_STATS: { request: Empty; response: { stats: Awaited<ReturnType<typeof getAnalysisStats>> } };
+  GET_CANDIDATE_STATS: { request: Empty; response: { stats: Awaited<ReturnType<typeof getCandidateStats>> } };
+  GET_TOP_CANDIDATES: { request: { limit?: number }; response: { candidates: CandidateUrl[] } };
+
+  // v1.2.0: Natural language preferences
+  SAVE_PREFERENCES: { request: { text: string }; response: { rules: string[] } };
+  PARSE_PREFERENCES: { request: { text: string }; response: { rules: string[] } };
+
+  // Settings (rescheduling alarms as needed)
+  UPDATE_SETTINGS: { request: { changes: Partial<Settings> }; response: { settings: Settings } };
+
+  // v1.3.0: Chrome reconciliation
+  RECONCILE_BOOKMARKS: { request: Empty; response: { report: ReconciliationReport } };
+  REPAIR_CATEGORY_COUNTS: { request: Empty; response: Empty };
+  GET_RECONCILIATION_REPORT: { request: Empty; response: { report: ReconciliationReport | null } };
+
+  // v1.3.0: User-defined categories
+  CREATE_CATEGORY: { request: { category: CategoryInput }; response: { category: Category } };
+  UPDATE_CATEGORY: { request: { categoryId: string; changes: Partial<CategoryInput> }; response: { category: Category } };
+  MERGE_CATEGORIES: { request: { sourceId: string; targetId: string }; response: { moved: number } };
+  DELETE_CATEGORY: { request: { categoryId: string; reassignTo?: string }; response: { moved: number } };
+
+  // v1.3.0: Backup, restore and bookmarks.html
+  CREATE_BACKUP: { request: Empty; response: { backup: SmartMarksBackup } };
+  RESTORE_BACKUP: { request: { backup: SmartMarksBackup; mode: RestoreMode }; response: { report: RestoreReport } };
+  EXPORT_BOOKMARKS_HTML: { request: Empty; response: { html: string } };
+  IMPORT_BOOKMARKS_HTML: { request: { html: string }; response: { report: NetscapeImportReport } };
+
+  // v1.3.0: Link health (results are stored on each bookmark)
+  CHECK_LINKS: { request: Empty; response: Empty };
+  APPLY_LINK_REDIRECTS: { request: { bookmarkIds: string[] }; response: { updated: number } };
+
+  // v1.3.0: Activity log (read directly from SmartMarksDB, undone through the background)
+  UNDO_ACTIVITY: { request: { entryId: number }; response: Empty };
+  UNDO_JOB_RUN: { request: { runId: string }; response: { undone: number; skipped: number } };
+
+  // v1.3.0: Archive review (proposals read directly from SmartMarksDB)
+  APPROVE_ARCHIVE_PROPOSALS: { request: { bookmarkIds: string[] }; response: { updated: number } };
+  EXCLUDE_ARCHIVE_PROPOSALS: { request: { bookmarkIds: string[] }; response: { updated: number } };
+  SNOOZE_ARCHIVE_PROPOSALS: { request: { bookmarkIds: string[]; days: number }; response: { updated: number } };
+
+  // v1.3.0: Categorization rules (read and previewed directly from SmartMarksDB)
+  SAVE_CATEGORIZATION_RULE: { request: { rule: CategorizationRuleInput }; response: { rule: CategorizationRuleRecord } };
+  DELETE_CATEGORIZATION_RULE: { request: { ruleId: number }; response: Empty };
+  RESET_CATEGORIZATION_RULES: { request: Empty; response: Empty };
+}
+
+export type MessageType = keyof MessageMap;
+export type RequestFields<T extends MessageType> = MessageMap[T]['request'];
+export type ResponseData<T extends MessageType> = MessageMap[T]['response'];
+
+export type RequestOf<T extends MessageType> = { type: T } & RequestFields<T>;
+
+// Discriminated union of every request
+export type Request = { [T in MessageType]: RequestOf<T> }[MessageType];
+
+export type RpcErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNKNOWN_TYPE'
+  | 'HANDLER_FAILED'
+  // v1.3.0: External API only, see externalApi.ts
+  | 'FORBIDDEN'
+  | 'UNSUPPORTED_VERSION';
+
+export type RpcResponse<T extends MessageType = MessageType> =
+  | { success: true; data: ResponseData<T> }
+  | { success: false; error: { code: RpcErrorCode; message: string } };
+
+/**
+ * Error carried by a failed RpcResponse
+ */
+export class RpcError extends Error {
+  readonly code: RpcErrorCode;
+
+  constructor(code: RpcErrorCode, message: string) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+  }
+}
+
+// Runtime shape of a request field; a trailing '?' marks it optional,
+// an array lists the allowed string values, and a function checks anything
+// more involved, returning what is wrong with the value (undefined when fine)
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'string[]';
+type FieldCheck = (value: unknown) => string | undefined;
+export type FieldSpec = FieldType | `${FieldType}?` | readonly string[] | FieldCheck;
+
+const EXTERNAL_SCOPES: Record<ExternalScope, true> = { search: true, add: true, tags: true, candidates: true };
+
+function checkExternalClients(value: unknown): string | undefined {
+  if (!Array.isArray(value)) return 'must be a list of extensions';
+  for (const client of value) {
+    if (
+      typeof client !== 'object' || client === null ||
+      typeof client.extensionId !== 'string' || client.extensionId.length === 0 ||
+      typeof client.name !== 'string' ||
+      typeof client.addedAt !== 'number' ||
+      !Array.isArray(client.scopes) ||
+      !client.scopes.every((scope: unknown) => typeof scope === 'string' && Object.hasOwn(EXTERNAL_SCOPES, scope))
+    ) {
+      return 'must list each extension with an id, name, known scopes and the time it was added';
+    }
+  }
+  return undefined;
+}
+
+// Settings the UI may change; the rest is kept up to date by SmartMarks itself
+const SETTINGS_CHANGES: { [K in keyof Settings]?: FieldSpec } = {
+  updateFrequency: ['realtime', 'daily', 'weekly'],
+  excludedDomains: 'string[]',
+  archiveThreshold: 'number',
+  autoArchive: 'boolean',
+  enableAI: 'boolean',
+  naturalLanguagePreferences: 'string',
+  weeklyVisitThreshold: 'number',
+  monthlyVisitThreshold: 'number',
+  quarterlyVisitThreshold: 'number',
+  autoBookmarkEnabled: 'boolean',
+  metadataRefreshDays: 'number',
+  externalClients: checkExternalClients,
+  archiveToFolder: 'boolean',
+  archiveReview: 'boolean'
+};
+
+function checkSettingsChanges(value: unknown): string | undefined {
+  if (!matchesField(value, 'object')) return 'must be object';
+  for (const [key, setting] of Object.entries(value as object)) {
+    const spec = SETTINGS_CHANGES[key as keyof Settings];
+    if (!Object.hasOwn(SETTINGS_CHANGES, key) || !spec) {
+      return `can't change the "${key}" setting`;
+    }
+    const problem = fieldProblem(setting, spec);
+    if (problem) return `setting "${key}" ${problem}`;
+  }
+  return undefined;
+}
+
+const REQUEST_SCHEMAS: { [T in MessageType]: { [K in keyof RequestFields<T>]-?: FieldSpec } } = {
+  TRACK_BOOKMARK_CLICK: { bookmarkId: 'string' },
+  UPDATE_BOOKMARK: { bookmarkId: 'string', changes: 'object' },
+  DELETE_BOOKMARKS: { bookmarkIds: 'string[]' },
+  ARCHIVE_BOOKMARKS: { bookmarkIds: 'string[]' },
+  RESTORE_BOOKMARKS: { bookmarkIds: 'string[]' },
+  ADD_TAGS: { bookmarkIds: 'string[]', tags: 'string[]' },
+  REMOVE_TAGS: { bookmarkIds: 'string[]', tags: 'string[]' },
+  ORGANIZE_INTO_FOLDERS: {},
+  APPLY_CATEGORY_TO_DOMAIN: { bookmarkId: 'string' },
+  GROUP_TABS: {},
+  UNGROUP_TABS: {},
+  GET_TAB_GROUP_STATS: {},
+  ANALYZE_HISTORY: {},
+  GET_ANALYSIS_STATS: {},
+  GET_CANDIDATE_STATS: {},
+  GET_TOP_CANDIDATES: { limit: 'number?' },
+  SAVE_PREFERENCES: { text: 'string' },
+  PARSE_PREFERENCES: { text: 'string' },
+  UPDATE_SETTINGS: { changes: checkSettingsChanges },
+  RECONCILE_BOOKMARKS: {},
+  REPAIR_CATEGORY_COUNTS: {},
+  GET_RECONCILIATION_REPORT: {},
+  CREATE_CATEGORY: { category: 'object' },
+  UPDATE_CATEGORY: { categoryId: 'string', changes: 'object' },
+  MERGE_CATEGORIES: { sourceId: 'string', targetId: 'string' },
+  DELETE_CATEGORY: { categoryId: 'string', reassignTo: 'string?' },
+  CREATE_BACKUP: {},
+  RESTORE_BACKUP: { backup: 'object', mode: ['merge', 'replace'] },
+  EXPORT_BOOKMARKS_HTML: {},
+  IMPORT_BOOKMARKS_HTML: { html: 'string' },
+  CHECK_LINKS: {},
+  APPLY_LINK_REDIRECTS: { bookmarkIds: 'string[]' },
+  UNDO_ACTIVITY: { entryId: 'number' },
+  UNDO_JOB_RUN: { runId: 'string' },
+  APPROVE_ARCHIVE_PROPOSALS: { bookmarkIds: 'string[]' },
+  EXCLUDE_ARCHIVE_PROPOSALS: { bookmarkIds: 'string[]' },
+  SNOOZE_ARCHIVE_PROPOSALS: { bookmarkIds: 'string[]', days: 'number' },
+  SAVE_CATEGORIZATION_RULE: { rule: 'object' },
+  DELETE_CATEGORIZATION_RULE: { ruleId: 'number' },
+  RESET_CATEGORIZATION_RULES: {}
+};
+
+function matchesField(value: unknown, spec: Exclude<FieldSpec, FieldCheck>): boolean {
+  if (Array.isArray(spec)) {
+    return typeof value === 'string' && spec.includes(value);
+  }
+
+  const optional = (spec as string).endsWith('?');
+  if (value === undefined) return optional;
+
+  const type = (optional ? (spec as string).slice(0, -1) : spec) as FieldType;
+  if (type === 'string[]') {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+  if (type === 'object') {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+  return typeof value === type;
+}
+
+/**
+ * What is wrong with a field value, or undefined when it matches its spec
+ */
+function fieldProblem(value: unknown, spec: FieldSpec): string | undefined {
+  if (typeof spec === 'function') return spec(value);
+  if (matchesField(value, spec)) return undefined;
+  return `must be ${Array.isArray(spec) ? spec.join(' | ') : spec}`;
+}
+
+/**
+ * Check that a message is a well-formed request before it reaches a handler
+ * Throws an RpcError describing the first problem found
+ */
+export function validateRequest(message: unknown): Request {
+  if (typeof message !== 'object' || message === null) {
+    throw new RpcError('INVALID_REQUEST', 'Request must be an object');
+  }
+
+  const type = (message as { type?: unknown }).type;
+  if (typeof type !== 'string' || !Object.hasOwn(REQUEST_SCHEMAS, type)) {
+    throw new RpcError('UNKNOWN_TYPE', `Unknown request type: ${String(type)}`);
+  }
+
+  validateFields(type, REQUEST_SCHEMAS[type as MessageType], message);
+  return message as Request;
+}
+
+/**
+ * Check the fields of a request of the given type against its schema
+ * Throws an RpcError naming the first field that doesn't match
+ */
+export function validateFields(type: string, schema: Record<string, FieldSpec>, message: object): void {
+  for (const [field, spec] of Object.entries(schema)) {
+    const problem = fieldProblem((message as Record<string, unknown>)[field], spec);
+    if (problem) {
+      throw new RpcError('INVALID_REQUEST', `${type}: "${field}" ${problem}`);
+    }
+  }
+}
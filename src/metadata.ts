@@ -9,12 +9,19 @@ export interface PageMetadata {
   publishDate?: string;
 }
 
+// v1.3.0: Outcome of a fetch, so failures can be recorded and retried
+export interface MetadataFetchResult {
+  ok: boolean;
+  metadata: PageMetadata;
+  error?: string;
+}
+
 /**
  * Extract metadata from a URL by fetching and parsing the HTML
  * This replaces content scripts - runs from service worker using fetch()
  * Handles CORS errors gracefully - many sites block extension fetches
  */
-export async function extractMetadata(url: string): Promise<PageMetadata> {
+export async function extractMetadata(url: string): Promise<MetadataFetchResult> {
   const metadata: PageMetadata = {};
 
   try {
@@ -29,7 +36,7 @@ export async function extractMetadata(url: string): Promise<PageMetadata> {
 
     if (!response.ok) {
       console.warn(`Failed to fetch ${url}: ${response.status}`);
-      return metadata;
+      return { ok: false, metadata, error: `HTTP ${response.status}` };
     }
 
     const html = await response.text();
@@ -49,9 +56,10 @@ export async function extractMetadata(url: string): Promise<PageMetadata> {
     } else {
       console.warn(`Failed to extract metadata from ${url}:`, error);
     }
+    return { ok: false, metadata, error: error instanceof Error ? error.message : String(error) };
   }
 
-  return metadata;
+  return { ok: true, metadata };
 }
 
 /**
@@ -209,19 +217,19 @@ function decodeHtmlEntities(text: string): string {
 export async function batchExtractMetadata(
   urls: string[],
   chunkSize: number = 10
-): Promise<Map<string, PageMetadata>> {
-  const results = new Map<string, PageMetadata>();
+): Promise<Map<string, MetadataFetchResult>> {
+  const results = new Map<string, MetadataFetchResult>();
 
   for (let i = 0; i < urls.length; i += chunkSize) {
     const chunk = urls.slice(i, i + chunkSize);
     const promises = chunk.map(async (url) => {
-      const metadata = await extractMetadata(url);
-      return { url, metadata };
+      const result = await extractMetadata(url);
+      return { url, result };
     });
 
     const chunkResults = await Promise.all(promises);
-    chunkResults.forEach(({ url, metadata }) => {
-      results.set(url, metadata);
+    chunkResults.forEach(({ url, result }) => {
+      results.set(url, result);
     });
 
     // Small delay between chunks to avoid rate limiting
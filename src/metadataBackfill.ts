@@ -0,0 +1,158 @@
+import { db, type Bookmark } from './db';
+import { extractMetadata, batchExtractMetadata, type MetadataFetchResult } from './metadata';
+import { loadCheckpoint, saveCheckpoint, clearCheckpoint } from './checkpoints';
+import { hasHostAccess, isWebUrl } from './utils';
+
+export const DEFAULT_METADATA_REFRESH_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = DAY_MS;      // Doubles with every consecutive failure
+const MAX_RETRY_DELAY_MS = 30 * DAY_MS;
+const CHUNK_SIZE = 20;                   // Fetches time out after 5s, so keep chunks small
+const CONCURRENT_FETCHES = 10;
+
+/**
+ * Whether a bookmark's page details are missing, stale, or due for a retry
+ * Only web pages have details to fetch
+ */
+export function needsMetadataFetch(bookmark: Bookmark, refreshDays: number, now: number = Date.now()): boolean {
+  if (!isWebUrl(bookmark.url)) return false;
+
+  const { fetchStatus, fetchedAt, failedAttempts } = bookmark.metadata;
+  if (!fetchedAt) return true;
+
+  if (fetchStatus === 'failed') {
+    const delay = RETRY_BASE_DELAY_MS * 2 ** Math.max((failedAttempts ?? 1) - 1, 0);
+    return now - fetchedAt >= Math.min(delay, MAX_RETRY_DELAY_MS);
+  }
+
+  return refreshDays > 0 && now - fetchedAt >= refreshDays * DAY_MS;
+}
+
+/**
+ * Merge a fetch result into a bookmark's metadata
+ * A failed fetch keeps whatever details an earlier fetch found
+ */
+export function applyFetchResult(metadata: Bookmark['metadata'], result: MetadataFetchResult): Bookmark['metadata'] {
+  if (!result.ok) {
+    return {
+      ...metadata,
+      fetchStatus: 'failed',
+      fetchedAt: Date.now(),
+      fetchError: result.error,
+      failedAttempts: (metadata.failedAttempts ?? 0) + 1
+    };
+  }
+
+  const { description, favicon, keywords, author, publishDate } = result.metadata;
+  return {
+    contentHash: metadata.contentHash,
+    description,
+    favicon,
+    keywords,
+    author,
+    publishDate,
+    fetchStatus: 'ok',
+    fetchedAt: Date.now()
+  };
+}
+
+/**
+ * Fetch and store the page details of a single bookmark
+ */
+export async function refreshBookmarkMetadata(bookmarkId: string, url: string): Promise<void> {
+  if (!isWebUrl(url) || !(await hasHostAccess())) return;
+
+  const result = await extractMetadata(url);
+
+  const bookmark = await db.bookmarks.get(bookmarkId);
+  if (!bookmark) return;
+
+  await db.bookmarks.update(bookmarkId, { metadata: applyFetchResult(bookmark.metadata, result) });
+}
+
+/**
+ * Fetch page details for the next chunk of bookmarks (job step, see jobRunner.ts)
+ * Covers bookmarks never fetched, failed fetches due for a retry, and details
+ * older than Settings.metadataRefreshDays
+ * Needs the optional all-sites permission; without it pages can't be fetched
+ */
+export async function metadataNextChunk(): Promise<boolean> {
+  if (!(await hasHostAccess())) {
+    console.log('Page details fetch skipped: no access to sites');
+    await clearCheckpoint('metadata');
+    return false;
+  }
+
+  const settings = await db.settings.get('local');
+  if (!settings) return false;
+
+  const refreshDays = settings.metadataRefreshDays ?? DEFAULT_METADATA_REFRESH_DAYS;
+  const needsFetch = (b: Bookmark) => needsMetadataFetch(b, refreshDays);
+
+  // Load existing checkpoint or create new one
+  let checkpoint = await loadCheckpoint('metadata');
+
+  if (!checkpoint) {
+    const dueCount = await db.bookmarks.filter(needsFetch).count();
+
+    if (dueCount === 0) {
+      console.log('No bookmarks need page details');
+      return false;
+    }
+
+    checkpoint = {
+      jobType: 'metadata',
+      startTime: Date.now(),
+      totalItems: dueCount,
+      processedCount: 0,
+      status: 'running',
+      stats: { fetched: 0, failed: 0 }
+    };
+    await saveCheckpoint(checkpoint);
+    console.log(`Starting page details fetch for ${dueCount} bookmarks`);
+  } else {
+    console.log(`Resuming page details fetch: ${checkpoint.processedCount}/${checkpoint.totalItems}`);
+  }
+
+  // Walk in id order, so bookmarks that fail again aren't retried within the same run
+  const bookmarks = await db.bookmarks
+    .where('id')
+    .above(checkpoint.lastProcessedId ?? '')
+    .filter(needsFetch)
+    .limit(CHUNK_SIZE)
+    .toArray();
+
+  const results = await batchExtractMetadata(bookmarks.map(b => b.url), CONCURRENT_FETCHES);
+  const stats = { fetched: 0, failed: 0, ...checkpoint.stats };
+
+  for (const bookmark of bookmarks) {
+    const result = results.get(bookmark.url)!;
+
+    // Re-read in case the bookmark was edited or deleted while fetching
+    await db.transaction('rw', db.bookmarks, async () => {
+      const current = await db.bookmarks.get(bookmark.id);
+      if (current) {
+        await db.bookmarks.update(bookmark.id, { metadata: applyFetchResult(current.metadata, result) });
+      }
+    });
+
+    if (result.ok) {
+      stats.fetched++;
+    } else {
+      stats.failed++;
+    }
+    checkpoint.processedCount++;
+    checkpoint.lastProcessedId = bookmark.id;
+  }
+  checkpoint.stats = stats;
+
+  if (bookmarks.length < CHUNK_SIZE) {
+    await clearCheckpoint('metadata');
+    console.log(`Page details fetch complete: ${stats.fetched} fetched, ${stats.failed} failed`);
+    return false;
+  }
+
+  await saveCheckpoint(checkpoint);
+  return true;
+}
@@ -1,18 +1,6 @@
 import { db, type NaturalLanguageRule } from './db';
-
-// Category keywords mapping
-const CATEGORY_KEYWORDS: Record<string, string[]> = {
-  development: ['dev', 'development', 'programming', 'code', 'coding', 'tech', 'software', 'github', 'stackoverflow'],
-  shopping: ['shop', 'shopping', 'store', 'buy', 'purchase', 'amazon', 'ebay'],
-  social: ['social', 'social media', 'facebook', 'twitter', 'instagram', 'reddit', 'linkedin'],
-  news: ['news', 'newspaper', 'media', 'headlines'],
-  entertainment: ['entertainment', 'video', 'music', 'games', 'gaming', 'movies', 'youtube', 'netflix', 'streaming'],
-  work: ['work', 'office', 'job', 'business', 'professional', 'meeting', 'slack', 'teams'],
-  research: ['research', 'academic', 'science', 'study', 'paper', 'journal'],
-  finance: ['finance', 'financial', 'banking', 'money', 'investment', 'crypto', 'stocks'],
-  health: ['health', 'medical', 'fitness', 'wellness', 'doctor'],
-  education: ['education', 'learning', 'course', 'tutorial', 'school', 'university']
-};
+import { loadCategoryKeywords } from './categories';
+import { findMatchingDomainPattern } from './domainMatching';
 
 // Intent detection patterns
 const EXCLUDE_PATTERNS = [
@@ -70,12 +58,13 @@ function extractDomains(text: string): string[] {
 
 /**
  * Map keywords to categories
+ * categoryKeywords comes from the categories table (see loadCategoryKeywords)
  */
-function mapToCategories(text: string): string[] {
+function mapToCategories(text: string, categoryKeywords: Record<string, string[]>): string[] {
   const normalizedText = text.toLowerCase();
   const categories: string[] = [];
 
-  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+  for (const [category, keywords] of Object.entries(categoryKeywords)) {
     if (keywords.some(keyword => normalizedText.includes(keyword))) {
       categories.push(category);
     }
@@ -87,7 +76,7 @@ function mapToCategories(text: string): string[] {
 /**
  * Extract general keywords from text (not categories or domains)
  */
-function extractKeywords(text: string): string[] {
+function extractKeywords(text: string, categoryKeywords: Record<string, string[]>): string[] {
   // Remove domains first
   let cleanText = text.replace(DOMAIN_REGEX, '');
 
@@ -102,8 +91,8 @@ function extractKeywords(text: string): string[] {
     .filter(word => word.length > 2 && !intentWords.includes(word));
 
   // Filter out category keywords that were already matched
-  const categoryKeywords = Object.values(CATEGORY_KEYWORDS).flat();
-  return [...new Set(words.filter(word => !categoryKeywords.includes(word)))];
+  const knownKeywords = Object.values(categoryKeywords).flat();
+  return [...new Set(words.filter(word => !knownKeywords.includes(word)))];
 }
 
 /**
@@ -123,14 +112,18 @@ function extractExceptions(text: string): { domains?: string[] } | undefined {
 /**
  * Parse a single line of natural language preference
  */
-function parseLine(text: string, lineIndex: number): ParsedRule | null {
+function parseLine(
+  text: string,
+  lineIndex: number,
+  categoryKeywords: Record<string, string[]>
+): ParsedRule | null {
   const trimmed = text.trim();
   if (!trimmed || trimmed.startsWith('#')) return null; // Empty or comment
 
   const type = detectIntent(trimmed);
   const domains = extractDomains(trimmed);
-  const categories = mapToCategories(trimmed);
-  const keywords = extractKeywords(trimmed);
+  const categories = mapToCategories(trimmed, categoryKeywords);
+  const keywords = extractKeywords(trimmed, categoryKeywords);
   const exceptions = extractExceptions(trimmed);
 
   // Must have at least one condition
@@ -162,12 +155,12 @@ function parseLine(text: string, lineIndex: number): ParsedRule | null {
 /**
  * Parse multiline natural language preferences into structured rules
  */
-export function parsePreferences(text: string): ParsedRule[] {
+export function parsePreferences(text: string, categoryKeywords: Record<string, string[]>): ParsedRule[] {
   const lines = text.split('\n');
   const rules: ParsedRule[] = [];
 
   lines.forEach((line, index) => {
-    const rule = parseLine(line, index);
+    const rule = parseLine(line, index, categoryKeywords);
     if (rule) {
       rules.push(rule);
     }
@@ -179,21 +172,25 @@ export function parsePreferences(text: string): ParsedRule[] {
 /**
  * Check if a URL/title matches a specific rule
  */
-export function matchesRule(url: string, title: string, rule: ParsedRule): boolean {
-  const domain = extractDomainFromUrl(url);
+export function matchesRule(
+  url: string,
+  title: string,
+  rule: ParsedRule,
+  categoryKeywords: Record<string, string[]>
+): boolean {
   const normalizedUrl = url.toLowerCase();
   const normalizedTitle = title.toLowerCase();
 
   // Check for exceptions first
   if (rule.exceptions?.domains) {
-    if (rule.exceptions.domains.some(d => domain.includes(d))) {
+    if (findMatchingDomainPattern(url, rule.exceptions.domains)) {
       return false; // Exception matched, rule doesn't apply
     }
   }
 
   // Check domain conditions
   if (rule.conditions.domains?.length) {
-    if (rule.conditions.domains.some(d => domain.includes(d))) {
+    if (findMatchingDomainPattern(url, rule.conditions.domains)) {
       return true;
     }
   }
@@ -201,8 +198,8 @@ export function matchesRule(url: string, title: string, rule: ParsedRule): boole
   // Check category conditions (via category keywords in URL/title)
   if (rule.conditions.categories?.length) {
     for (const category of rule.conditions.categories) {
-      const categoryKeywords = CATEGORY_KEYWORDS[category] || [];
-      if (categoryKeywords.some(kw => normalizedUrl.includes(kw) || normalizedTitle.includes(kw))) {
+      const keywords = categoryKeywords[category] || [];
+      if (keywords.some(kw => normalizedUrl.includes(kw) || normalizedTitle.includes(kw))) {
         return true;
       }
     }
@@ -232,6 +229,7 @@ export async function shouldExcludeUrl(url: string, title: string): Promise<bool
 
   // Sort by priority (lower = higher priority)
   rules.sort((a, b) => a.priority - b.priority);
+  const categoryKeywords = await loadCategoryKeywords();
 
   for (const rule of rules) {
     if (matchesRule(url, title, {
@@ -239,7 +237,7 @@ export async function shouldExcludeUrl(url: string, title: string): Promise<bool
       type: rule.type,
       conditions: rule.conditions,
       priority: rule.priority
-    })) {
+    }, categoryKeywords)) {
       return rule.type === 'exclude';
     }
   }
@@ -259,6 +257,7 @@ export async function shouldIncludeUrl(url: string, title: string): Promise<bool
 
   // Sort by priority
   rules.sort((a, b) => a.priority - b.priority);
+  const categoryKeywords = await loadCategoryKeywords();
 
   for (const rule of rules) {
     if (rule.type === 'include' && matchesRule(url, title, {
@@ -266,7 +265,7 @@ export async function shouldIncludeUrl(url: string, title: string): Promise<bool
       type: rule.type,
       conditions: rule.conditions,
       priority: rule.priority
-    })) {
+    }, categoryKeywords)) {
       return true;
     }
   }
@@ -321,25 +320,18 @@ export function formatRulesForDisplay(rules: ParsedRule[]): string[] {
   });
 }
 
-/**
- * Extract domain from a full URL
- */
-function extractDomainFromUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.replace(/^www\./, '').toLowerCase();
-  } catch {
-    return '';
-  }
-}
-
 /**
  * Get category from natural language rules for a URL
  */
-export function getCategoryFromRules(url: string, title: string, rules: ParsedRule[]): string | undefined {
+export function getCategoryFromRules(
+  url: string,
+  title: string,
+  rules: ParsedRule[],
+  categoryKeywords: Record<string, string[]>
+): string | undefined {
   for (const rule of rules) {
     if (rule.type === 'include' && rule.conditions.categories?.length) {
-      if (matchesRule(url, title, rule)) {
+      if (matchesRule(url, title, rule, categoryKeywords)) {
         return rule.conditions.categories[0];
       }
     }
@@ -0,0 +1,344 @@
+import { db, type Bookmark, type Category } from './db';
+import { normalizeURL, generateContentHash } from './categorization';
+import { buildCategoryTree, createCategory, type CategoryTreeNode } from './categories';
+import { normalizeTags } from './tags';
+import { getFolderPath } from './folders';
+import { beginImportSession, endImportSession } from './importSession';
+
+/// <reference types="chrome"/>
+
+const OTHER_BOOKMARKS_ID = '2';
+const IMPORT_FOLDER_TITLE = 'Imported bookmarks';
+
+// Browser root folders that say where a bookmark lived, not what it is about
+const BROWSER_ROOT_FOLDERS = new Set([
+  'bookmarks bar',
+  'bookmarks toolbar',
+  'bookmarks menu',
+  'other bookmarks',
+  'mobile bookmarks',
+  'favorites bar'
+]);
+
+export interface NetscapeBookmark {
+  title: string;
+  url: string;
+  addDate?: number;   // ms
+  lastVisit?: number; // ms
+  tags: string[];
+  folderPath: string[];
+}
+
+export interface NetscapeImportReport {
+  total: number;
+  imported: number;
+  duplicates: number;
+  skipped: number; // Not a URL Chrome can bookmark (e.g. Firefox "place:" queries)
+  categoriesCreated: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Netscape dates are seconds since the epoch
+ */
+function toSeconds(ms?: number): string | undefined {
+  return ms ? String(Math.floor(ms / 1000)) : undefined;
+}
+
+function fromSeconds(value?: string): number | undefined {
+  const seconds = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([A-Z_-]+)\s*=\s*"([^"]*)"/gi)) {
+    attributes[match[1].toUpperCase()] = unescapeHtml(match[2]);
+  }
+  return attributes;
+}
+
+function formatBookmark(bookmark: Bookmark, indent: string): string {
+  const attributes = [
+    `HREF="${escapeHtml(bookmark.url)}"`,
+    `ADD_DATE="${toSeconds(bookmark.dateAdded)}"`
+  ];
+  const lastVisit = toSeconds(bookmark.lastVisited);
+  if (lastVisit) attributes.push(`LAST_VISIT="${lastVisit}"`);
+  if (bookmark.tags?.length) attributes.push(`TAGS="${escapeHtml(bookmark.tags.join(','))}"`);
+
+  return `${indent}<DT><A ${attributes.join(' ')}>${escapeHtml(bookmark.title)}</A>`;
+}
+
+/**
+ * Export bookmarks as a Netscape bookmark file (bookmarks.html)
+ * Categories become nested folders, tags go in the TAGS attribute, and
+ * uncategorized bookmarks sit at the top level
+ */
+export async function exportNetscapeHtml(): Promise<string> {
+  const categories = await db.categories.toArray();
+  const bookmarks = await db.bookmarks.toArray();
+
+  const byCategory = new Map<string, Bookmark[]>();
+  for (const bookmark of bookmarks) {
+    const category = bookmark.category || 'uncategorized';
+    if (!byCategory.has(category)) byCategory.set(category, []);
+    byCategory.get(category)!.push(bookmark);
+  }
+
+  // Bookmarks pointing at a category id with no row are exported under that id
+  const known = new Set(categories.map(c => c.id));
+  const orphans: Category[] = Array.from(byCategory.keys())
+    .filter(id => !known.has(id))
+    .map(id => ({ id, name: id, isDefault: false, bookmarkCount: 0, archivedCount: 0 }));
+  const tree = buildCategoryTree([...categories, ...orphans]);
+
+  const lines: string[] = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>'
+  ];
+
+  const hasBookmarks = (node: CategoryTreeNode): boolean =>
+    (byCategory.get(node.category.id)?.length ?? 0) > 0 || node.children.some(hasBookmarks);
+
+  const writeNode = (node: CategoryTreeNode, indent: string) => {
+    if (!hasBookmarks(node)) return;
+
+    lines.push(`${indent}<DT><H3>${escapeHtml(node.category.name)}</H3>`);
+    lines.push(`${indent}<DL><p>`);
+    node.children.forEach(child => writeNode(child, indent + '    '));
+    for (const bookmark of byCategory.get(node.category.id) ?? []) {
+      lines.push(formatBookmark(bookmark, indent + '    '));
+    }
+    lines.push(`${indent}</DL><p>`);
+  };
+
+  for (const node of tree) {
+    if (node.category.id === 'uncategorized') continue;
+    writeNode(node, '    ');
+  }
+  for (const bookmark of byCategory.get('uncategorized') ?? []) {
+    lines.push(formatBookmark(bookmark, '    '));
+  }
+
+  lines.push('</DL><p>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a Netscape bookmark file
+ * The format is loose HTML (unclosed <DT> and <p>), so this tokenizes the
+ * folder (<H3>), list (<DL>) and link (<A>) tags instead of building a DOM,
+ * which also keeps it usable in the service worker
+ */
+export function parseNetscapeHtml(html: string): NetscapeBookmark[] {
+  const bookmarks: NetscapeBookmark[] = [];
+  const folderStack: Array<string | null> = [];
+  let pendingFolder: string | null = null;
+
+  const tokens = /<DL\b[^>]*>|<\/DL\s*>|<H3\b([^>]*)>([\s\S]*?)<\/H3\s*>|<A\b([^>]*)>([\s\S]*?)<\/A\s*>/gi;
+
+  for (const match of html.matchAll(tokens)) {
+    const token = match[0].slice(0, 4).toUpperCase();
+
+    if (token.startsWith('<DL')) {
+      // A list opened right after a folder heading holds that folder's contents
+      folderStack.push(pendingFolder);
+      pendingFolder = null;
+    } else if (token.startsWith('</DL')) {
+      folderStack.pop();
+    } else if (token.startsWith('<H3')) {
+      pendingFolder = unescapeHtml(match[2].replace(/<[^>]*>/g, '')).trim();
+    } else {
+      const attributes = parseAttributes(match[3]);
+      if (!attributes.HREF) continue;
+
+      bookmarks.push({
+        title: unescapeHtml(match[4].replace(/<[^>]*>/g, '')).trim() || attributes.HREF,
+        url: attributes.HREF,
+        addDate: fromSeconds(attributes.ADD_DATE),
+        lastVisit: fromSeconds(attributes.LAST_VISIT),
+        tags: normalizeTags((attributes.TAGS ?? '').split(',')),
+        folderPath: folderStack.filter((folder): folder is string => !!folder)
+      });
+    }
+  }
+
+  return bookmarks;
+}
+
+function isBookmarkableUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:', 'ftp:', 'file:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Import a Netscape bookmark file into Chrome and SmartMarks
+ * Bookmarks land in an "Imported bookmarks" folder mirroring the file's folders;
+ * folders become (nested) categories and TAGS become tags. URLs already
+ * bookmarked - or repeated within the file - are skipped via normalizeURL.
+ * Runs as an import session so categorization of folderless bookmarks and
+ * metadata fetching happen in one batch job afterwards.
+ */
+export async function importNetscapeHtml(html: string): Promise<NetscapeImportReport> {
+  const parsed = parseNetscapeHtml(html);
+  const report: NetscapeImportReport = {
+    total: parsed.length,
+    imported: 0,
+    duplicates: 0,
+    skipped: 0,
+    categoriesCreated: 0
+  };
+
+  const seenUrls = new Set((await db.bookmarks.toArray()).map(b => normalizeURL(b.url)));
+  const categories = await db.categories.toArray();
+  const categoryIds = new Map<string, string>(); // Folder path -> category id
+  const chromeFolders = new Map<string, string>(); // Folder path -> Chrome folder id
+
+  /**
+   * Find or create the category for a folder path, skipping browser root folders
+   */
+  async function resolveCategory(folderPath: string[]): Promise<string | undefined> {
+    const names = folderPath.filter(name => !BROWSER_ROOT_FOLDERS.has(name.toLowerCase()));
+    let parentId: string | undefined;
+
+    for (let depth = 0; depth < names.length; depth++) {
+      const key = names.slice(0, depth + 1).join('\u0000');
+      let id = categoryIds.get(key);
+
+      if (!id) {
+        const name = names[depth];
+        const existing = categories.find(c =>
+          c.parentId === parentId && c.name.toLowerCase() === name.toLowerCase()
+        );
+        if (existing) {
+          id = existing.id;
+        } else {
+          const created = await createCategory({ name, parentId });
+          categories.push(created);
+          report.categoriesCreated++;
+          id = created.id;
+        }
+        categoryIds.set(key, id);
+      }
+
+      parentId = id;
+    }
+
+    return parentId;
+  }
+
+  /**
+   * Find or create the Chrome folder mirroring a folder path
+   */
+  async function resolveChromeFolder(folderPath: string[]): Promise<string> {
+    let parentId: string | undefined = chromeFolders.get('');
+    if (!parentId) {
+      const root = await chrome.bookmarks.create({ parentId: OTHER_BOOKMARKS_ID, title: IMPORT_FOLDER_TITLE });
+      parentId = root.id;
+      chromeFolders.set('', parentId);
+    }
+
+    for (let depth = 0; depth < folderPath.length; depth++) {
+      const key = folderPath.slice(0, depth + 1).join('\u0000');
+      let id = chromeFolders.get(key);
+      if (!id) {
+        const folder: chrome.bookmarks.BookmarkTreeNode = await chrome.bookmarks.create({ parentId, title: folderPath[depth] });
+        id = folder.id;
+        chromeFolders.set(key, id);
+      }
+      parentId = id;
+    }
+
+    return parentId;
+  }
+
+  const toImport = parsed.filter(item => {
+    if (!isBookmarkableUrl(item.url)) {
+      report.skipped++;
+      return false;
+    }
+    const key = normalizeURL(item.url);
+    if (seenUrls.has(key)) {
+      report.duplicates++;
+      return false;
+    }
+    seenUrls.add(key);
+    return true;
+  });
+
+  if (toImport.length === 0) {
+    return report;
+  }
+
+  await beginImportSession();
+  try {
+    for (const item of toImport) {
+      const parentId = await resolveChromeFolder(item.folderPath);
+      const node = await chrome.bookmarks.create({ parentId, title: item.title, url: item.url });
+      const category = await resolveCategory(item.folderPath);
+
+      const bookmark: Bookmark = {
+        id: node.id,
+        url: item.url,
+        title: item.title,
+        tags: item.tags,
+        category,
+        dateAdded: item.addDate ?? node.dateAdded ?? Date.now(),
+        lastVisited: item.lastVisit,
+        visitCount: 0,
+        isPinned: false,
+        isArchived: false,
+        parentId,
+        index: node.index,
+        folderPath: await getFolderPath(parentId),
+        metadata: {
+          contentHash: generateContentHash(item.url)
+        }
+      };
+
+      // Overwrites the bare row the onCreated listener may already have stored
+      await db.bookmarks.put(bookmark);
+      report.imported++;
+    }
+  } finally {
+    // Categorizing and fetching metadata continues in the background
+    endImportSession().catch(error => {
+      console.error('Failed to process imported bookmarks:', error);
+    });
+  }
+
+  console.log(
+    `Bookmark file import: ${report.imported} imported, ${report.duplicates} duplicates, ` +
+    `${report.skipped} skipped, ${report.categoriesCreated} categories created`
+  );
+
+  return report;
+}
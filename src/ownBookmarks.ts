@@ -0,0 +1,47 @@
+/// <reference types="chrome"/>
+
+// URLs SmartMarks is creating Chrome bookmarks for right now, with how many of each
+const pending = new Map<string, number>();
+
+// Chrome stores URLs in canonical form ("https://example.com" gets a trailing slash)
+function canonical(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Run work that creates Chrome bookmarks for the given URLs and stores them itself
+ * While it runs the onCreated listener leaves bookmarks with these URLs alone:
+ * handling them as new user bookmarks as well would race the creator's own
+ * write, categorize them a second time and notify about them
+ */
+export async function whileCreatingBookmarks<T>(urls: string[], work: () => Promise<T>): Promise<T> {
+  const keys = urls.map(canonical);
+  for (const key of keys) {
+    pending.set(key, (pending.get(key) ?? 0) + 1);
+  }
+  try {
+    return await work();
+  } finally {
+    for (const key of keys) {
+      const count = pending.get(key)! - 1;
+      if (count > 0) {
+        pending.set(key, count);
+      } else {
+        pending.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Whether a new Chrome bookmark was created by SmartMarks itself
+ * Check before the listener's first await; by the time a creator stops being
+ * pending it has stored the bookmark, so a late check finds the row instead
+ */
+export function isOwnBookmark(node: chrome.bookmarks.BookmarkTreeNode): boolean {
+  return !!node.url && pending.has(canonical(node.url));
+}
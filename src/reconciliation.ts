@@ -0,0 +1,186 @@
+import { db, type Bookmark } from './db';
+import { generateContentHash, type CategorizationResult } from './categorization';
+import { createCategoryAssigner } from './categories';
+import { flattenBookmarkTree } from './utils';
+import { getFolderPathMap } from './folders';
+import { findArchiveFolderId, archiveChangesForMove } from './archiveFolder';
+import { logActivity } from './activityLog';
+import { forgetBookmarks } from './bookmarks';
+
+/// <reference types="chrome"/>
+
+const LAST_REPORT_KEY = 'smartmarks_last_reconciliation';
+
+export interface ReconciliationReport {
+  added: number;
+  updated: number;
+  removed: number;
+  moved: number;
+  unchanged: number;
+  startedAt: number;
+  completedAt: number;
+}
+
+/**
+ * Build a new IndexedDB bookmark from a Chrome bookmark node
+ */
+function createBookmarkFromNode(
+  node: chrome.bookmarks.BookmarkTreeNode,
+  folderPath: string[],
+  assign: (bookmark: Bookmark) => CategorizationResult
+): Bookmark {
+  const bookmark: Bookmark = {
+    id: node.id,
+    url: node.url!,
+    title: node.title,
+    tags: [],
+    dateAdded: node.dateAdded || Date.now(),
+    visitCount: 0,
+    isPinned: false,
+    isArchived: false,
+    parentId: node.parentId,
+    index: node.index,
+    folderPath,
+    metadata: {
+      contentHash: generateContentHash(node.url!)
+    }
+  };
+
+  // Auto-categorize
+  assign(bookmark);
+
+  return bookmark;
+}
+
+/**
+ * Reconcile SmartMarksDB with Chrome's bookmark tree
+ * Chrome is the source of truth: bookmarks missing locally are added,
+ * bookmarks gone from Chrome are removed, and URL/title edits, folder
+ * moves and folder renames made while the service worker was asleep are applied.
+ * Moves into or out of the archive folder archive or restore the bookmark
+ * instead of counting as drift.
+ */
+export async function reconcileBookmarks(): Promise<ReconciliationReport> {
+  const report: ReconciliationReport = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    moved: 0,
+    unchanged: 0,
+    startedAt: Date.now(),
+    completedAt: 0
+  };
+
+  const nodes = await flattenBookmarkTree();
+  const folderPaths = await getFolderPathMap();
+  const stored = await db.bookmarks.toArray();
+  const storedById = new Map(stored.map(b => [b.id, b]));
+  const chromeIds = new Set(nodes.map(n => n.id));
+  const assign = await createCategoryAssigner();
+  const archiveFolderId = await findArchiveFolderId();
+
+  const toAdd: Bookmark[] = [];
+  const toUpdate: Array<{ key: string; changes: Partial<Bookmark> }> = [];
+  const archiveMoves: Array<{ before: Bookmark; changes: Partial<Bookmark> }> = [];
+
+  for (const node of nodes) {
+    const existing = storedById.get(node.id);
+    const folderPath = (node.parentId && folderPaths.get(node.parentId)) || [];
+
+    if (!existing) {
+      toAdd.push(createBookmarkFromNode(node, folderPath, assign));
+      continue;
+    }
+
+    const changes: Partial<Bookmark> = {};
+    let edited = false;
+
+    if (existing.url !== node.url) {
+      changes.url = node.url!;
+      changes.metadata = {
+        ...existing.metadata,
+        contentHash: generateContentHash(node.url!)
+      };
+      edited = true;
+    }
+
+    if (existing.title !== node.title) {
+      changes.title = node.title;
+      edited = true;
+    }
+
+    if (existing.parentId !== node.parentId) {
+      changes.parentId = node.parentId;
+      const archiveChanges = archiveChangesForMove(existing, existing.parentId, node.parentId, archiveFolderId);
+      if (archiveChanges) {
+        Object.assign(changes, archiveChanges);
+        archiveMoves.push({ before: existing, changes: archiveChanges });
+      } else if (existing.parentId !== undefined) {
+        // Rows created before folder tracking have no parentId yet - backfill silently
+        report.moved++;
+      }
+    }
+
+    // Index shifts whenever a sibling moves, so it isn't reported as drift
+    if (existing.index !== node.index) {
+      changes.index = node.index;
+    }
+
+    // Folder renames change the path without moving the bookmark
+    if ((existing.folderPath ?? []).join('/') !== folderPath.join('/')) {
+      changes.folderPath = folderPath;
+    }
+
+    if (edited) {
+      report.updated++;
+    }
+
+    if (Object.keys(changes).length > 0) {
+      toUpdate.push({ key: existing.id, changes });
+    } else {
+      report.unchanged++;
+    }
+  }
+
+  const toRemove = stored.filter(b => !chromeIds.has(b.id)).map(b => b.id);
+
+  await db.transaction('rw', db.bookmarks, db.visitHistory, db.archiveProposals, async () => {
+    if (toAdd.length > 0) {
+      await db.bookmarks.bulkAdd(toAdd);
+    }
+
+    if (toUpdate.length > 0) {
+      await db.bookmarks.bulkUpdate(toUpdate);
+    }
+
+    await forgetBookmarks(toRemove);
+  });
+
+  for (const { before, changes } of archiveMoves) {
+    await logActivity(changes.isArchived ? 'archive' : 'restore', before, { ...before, ...changes }, {
+      cause: 'user',
+      reason: changes.isArchived ? 'Moved into the archive folder' : 'Moved out of the archive folder'
+    });
+  }
+
+  report.added = toAdd.length;
+  report.removed = toRemove.length;
+  report.completedAt = Date.now();
+
+  await chrome.storage.local.set({ [LAST_REPORT_KEY]: report });
+
+  console.log(
+    `Reconciliation complete: ${report.added} added, ${report.updated} updated, ` +
+    `${report.removed} removed, ${report.moved} moved, ${report.unchanged} unchanged`
+  );
+
+  return report;
+}
+
+/**
+ * Get the report from the most recent reconciliation run
+ */
+export async function getLastReconciliationReport(): Promise<ReconciliationReport | null> {
+  const result = await chrome.storage.local.get(LAST_REPORT_KEY);
+  return (result[LAST_REPORT_KEY] as ReconciliationReport | undefined) ?? null;
+}
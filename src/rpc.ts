@@ -0,0 +1,99 @@
+import {
+  RpcError,
+  validateRequest,
+  type MessageType,
+  type Request,
+  type RequestFields,
+  type RequestOf,
+  type ResponseData,
+  type RpcResponse
+} from './messages';
+
+/// <reference types="chrome"/>
+
+// Requests without required fields can be sent without a payload
+type PayloadArgs<T extends MessageType> =
+  Record<never, never> extends RequestFields<T>
+    ? [payload?: RequestFields<T>]
+    : [payload: RequestFields<T>];
+
+export type RpcHandler<T extends MessageType> = (
+  request: RequestOf<T>,
+  sender: chrome.runtime.MessageSender
+) => Promise<ResponseData<T>>;
+
+export type RpcHandlers = { [T in MessageType]: RpcHandler<T> };
+
+/**
+ * Send a request to the background and unwrap its response
+ * Throws an RpcError if the background rejects or fails the request
+ */
+export async function sendRequest<T extends MessageType>(
+  type: T,
+  ...[payload]: PayloadArgs<T>
+): Promise<ResponseData<T>> {
+  const response: RpcResponse<T> | undefined = await chrome.runtime.sendMessage({ ...payload, type });
+
+  if (!response) {
+    throw new RpcError('HANDLER_FAILED', `No response to ${type}`);
+  }
+  if (!response.success) {
+    throw new RpcError(response.error.code, response.error.message);
+  }
+  return response.data;
+}
+
+/**
+ * Message to show for a failed request (or anything else that was thrown)
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function toErrorResponse(error: unknown): RpcResponse {
+  const code = error instanceof RpcError ? error.code : 'HANDLER_FAILED';
+  return { success: false, error: { code, message: errorMessage(error) } };
+}
+
+/**
+ * Run a validated request through its handler and wrap the outcome in an envelope
+ */
+export async function dispatchRequest(
+  handlers: RpcHandlers,
+  request: Request,
+  sender: chrome.runtime.MessageSender
+): Promise<RpcResponse> {
+  const handler = handlers[request.type] as RpcHandler<MessageType>;
+
+  try {
+    return { success: true, data: await handler(request, sender) };
+  } catch (error) {
+    console.error(`${request.type} failed:`, error);
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * Build the chrome.runtime.onMessage listener for a set of handlers
+ * Malformed requests are answered synchronously; the channel is only
+ * kept open (by returning true) for requests that reach a handler
+ */
+export function createRpcListener(handlers: RpcHandlers) {
+  return (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: RpcResponse) => void
+  ): boolean => {
+    let request: Request;
+    try {
+      request = validateRequest(message);
+    } catch (error) {
+      console.warn('Rejected message:', error);
+      sendResponse(toErrorResponse(error));
+      return false;
+    }
+
+    dispatchRequest(handlers, request, sender).then(sendResponse);
+    return true;
+  };
+}
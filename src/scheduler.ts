@@ -0,0 +1,72 @@
+import { db, type Settings } from './db';
+
+/// <reference types="chrome"/>
+
+export type UpdateFrequency = Settings['updateFrequency'];
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/**
+ * Period (minutes) of each recurring processing alarm per update frequency
+ * realtime also handles new bookmarks and visits as they happen, so its
+ * alarms only sweep up what the event handlers missed
+ */
+const ALARM_PERIODS: Record<UpdateFrequency, Record<string, number>> = {
+  realtime: {
+    categorize: 15,
+    archive: DAY,
+    metadata: DAY,
+    recalculateCandidates: HOUR
+  },
+  daily: {
+    categorize: DAY,
+    archive: DAY,
+    metadata: DAY,
+    recalculateCandidates: DAY
+  },
+  weekly: {
+    categorize: WEEK,
+    archive: WEEK,
+    metadata: WEEK,
+    recalculateCandidates: WEEK
+  }
+};
+
+/**
+ * Get the configured update frequency, defaulting to realtime
+ */
+export async function getUpdateFrequency(): Promise<UpdateFrequency> {
+  const settings = await db.settings.get('local');
+  const frequency = settings?.updateFrequency;
+  return frequency && frequency in ALARM_PERIODS ? frequency : 'realtime';
+}
+
+/**
+ * Whether new bookmarks and visits should be processed as the events arrive
+ * Otherwise they are only stored, and the scheduled batch jobs process them
+ */
+export async function isRealtimeProcessing(): Promise<boolean> {
+  return (await getUpdateFrequency()) === 'realtime';
+}
+
+/**
+ * Create or reschedule the recurring processing alarms for the current settings
+ * Alarms whose period already matches are left alone, so calling this on every
+ * startup or settings save doesn't push the next run further out
+ */
+export async function scheduleProcessingAlarms(): Promise<UpdateFrequency> {
+  const frequency = await getUpdateFrequency();
+
+  for (const [name, periodInMinutes] of Object.entries(ALARM_PERIODS[frequency])) {
+    const existing = await chrome.alarms.get(name);
+    if (existing?.periodInMinutes === periodInMinutes) continue;
+
+    await chrome.alarms.clear(name);
+    await chrome.alarms.create(name, { periodInMinutes });
+  }
+
+  console.log(`Processing alarms scheduled for ${frequency} updates`);
+  return frequency;
+}
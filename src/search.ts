@@ -1,5 +1,8 @@
 import Fuse, { type FuseResult } from 'fuse.js';
 import { db, type Bookmark } from './db';
+import { loadCategoryKeywords, getCategorySubtreeIds, getSubtreeIds } from './categories';
+import { normalizeTags } from './tags';
+import { engagedVisitCount, lastEngagedAt } from './visitDuration';
 
 export interface SearchResult {
   bookmark: Bookmark;
@@ -9,7 +12,9 @@ export interface SearchResult {
 
 export interface SearchOptions {
   query: string;
-  category?: string;
+  category?: string; // Matches the category and all of its sub-categories
+  folderId?: string; // v1.3.0: Only bookmarks directly inside this Chrome folder
+  tags?: string[];   // v1.3.0: Only bookmarks carrying all of these tags
   includeArchived?: boolean;
   limit?: number;
 }
@@ -31,8 +36,12 @@ export interface ConversationalQuery {
  * - "that flower website I saw last week"
  * - "github repo from yesterday"
  * - "shopping sites I visited this month"
+ * Category hints come from categoryKeywords (see loadCategoryKeywords)
  */
-export function parseConversationalQuery(query: string): ConversationalQuery {
+export function parseConversationalQuery(
+  query: string,
+  categoryKeywords: Record<string, string[]>
+): ConversationalQuery {
   const normalized = query.toLowerCase();
   const result: ConversationalQuery = {
     contentHints: [],
@@ -66,20 +75,7 @@ export function parseConversationalQuery(query: string): ConversationalQuery {
   }
 
   // Extract category hints
-  const categoryKeywords = [
-    { keywords: ['dev', 'code', 'programming', 'github'], category: 'development' },
-    { keywords: ['shop', 'buy', 'store', 'amazon'], category: 'shopping' },
-    { keywords: ['social', 'facebook', 'twitter', 'instagram'], category: 'social' },
-    { keywords: ['news', 'article'], category: 'news' },
-    { keywords: ['video', 'watch', 'youtube', 'movie'], category: 'entertainment' },
-    { keywords: ['work', 'meeting', 'slack'], category: 'work' },
-    { keywords: ['research', 'paper', 'study'], category: 'research' },
-    { keywords: ['bank', 'finance', 'invest'], category: 'finance' },
-    { keywords: ['health', 'medical'], category: 'health' },
-    { keywords: ['course', 'learn', 'education'], category: 'education' },
-  ];
-
-  for (const { keywords, category } of categoryKeywords) {
+  for (const [category, keywords] of Object.entries(categoryKeywords)) {
     if (keywords.some(kw => normalized.includes(kw))) {
       result.categoryHints.push(category);
     }
@@ -116,11 +112,23 @@ export async function searchBookmarks(options: SearchOptions): Promise<SearchRes
 
   // Filter by category
   if (options.category) {
-    bookmarks = bookmarks.filter(b => b.category === options.category);
+    const categoryIds = new Set(await getCategorySubtreeIds(options.category));
+    bookmarks = bookmarks.filter(b => b.category && categoryIds.has(b.category));
+  }
+
+  // Filter by Chrome folder
+  if (options.folderId) {
+    bookmarks = bookmarks.filter(b => b.parentId === options.folderId);
+  }
+
+  // Filter by tags
+  if (options.tags?.length) {
+    const tags = normalizeTags(options.tags);
+    bookmarks = bookmarks.filter(b => tags.every(tag => b.tags?.includes(tag)));
   }
 
   // Parse conversational query
-  const parsed = parseConversationalQuery(options.query);
+  const parsed = parseConversationalQuery(options.query, await loadCategoryKeywords());
 
   // Filter by temporal hints
   if (parsed.temporalHints) {
@@ -131,10 +139,12 @@ export async function searchBookmarks(options: SearchOptions): Promise<SearchRes
     });
   }
 
-  // Filter by category hints
+  // Filter by category hints (a hint covers the category's sub-categories too)
   if (parsed.categoryHints.length > 0) {
+    const categories = await db.categories.toArray();
+    const hintedIds = new Set(parsed.categoryHints.flatMap(hint => getSubtreeIds(categories, hint)));
     bookmarks = bookmarks.filter(b =>
-      b.category && parsed.categoryHints.includes(b.category)
+      b.category && hintedIds.has(b.category)
     );
   }
 
@@ -143,7 +153,9 @@ export async function searchBookmarks(options: SearchOptions): Promise<SearchRes
     keys: [
       { name: 'title', weight: 0.5 },
       { name: 'url', weight: 0.3 },
-      { name: 'metadata.description', weight: 0.2 }
+      { name: 'metadata.description', weight: 0.2 },
+      { name: 'tags', weight: 0.3 },
+      { name: 'folderPath', weight: 0.1 }
     ],
     threshold: 0.4,
     includeScore: true,
@@ -156,7 +168,14 @@ export async function searchBookmarks(options: SearchOptions): Promise<SearchRes
     ? parsed.contentHints.join(' ')
     : options.query;
 
-  const fuseResults = fuse.search(searchQuery);
+  // An empty query (e.g. a tag-only filter) lists every bookmark that passed the filters
+  const fuseResults: FuseResult<Bookmark>[] = searchQuery.trim()
+    ? fuse.search(searchQuery)
+    : bookmarks.map((item, refIndex) => ({ item, refIndex, score: 0 }));
+
+  // reduce rather than Math.max(...): spreading a large library overflows the stack
+  const maxVisits = bookmarks.reduce((max, b) => Math.max(max, engagedVisitCount(b)), 0);
+  const maxDuration = bookmarks.reduce((max, b) => Math.max(max, b.totalDuration ?? 0), 0);
 
   // Convert to SearchResult with ranking
   const results: SearchResult[] = fuseResults.map(result => {
@@ -164,20 +183,25 @@ export async function searchBookmarks(options: SearchOptions): Promise<SearchRes
     let score = 1 - (result.score || 0); // Invert Fuse score (lower is better)
 
     // Boost score based on:
-    // 1. Visit frequency (20%)
-    const maxVisits = Math.max(...bookmarks.map(b => b.visitCount));
-    const visitScore = maxVisits > 0 ? (bookmark.visitCount / maxVisits) : 0;
+    // 1. Visit frequency (20%), not counting bounces
+    const visitScore = maxVisits > 0 ? (engagedVisitCount(bookmark) / maxVisits) : 0;
     score += visitScore * 0.2;
 
-    // 2. Recency (30%)
-    if (bookmark.lastVisited) {
+    // 2. Recency (30%) of the last visit that wasn't a bounce
+    const lastUsed = lastEngagedAt(bookmark);
+    if (lastUsed) {
       const now = Date.now();
-      const daysSinceVisit = (now - bookmark.lastVisited) / (24 * 60 * 60 * 1000);
+      const daysSinceVisit = (now - lastUsed) / (24 * 60 * 60 * 1000);
       const recencyScore = Math.max(0, 1 - (daysSinceVisit / 90)); // Decay over 90 days
       score += recencyScore * 0.3;
     }
 
-    // 3. Pinned bookmarks get boost
+    // 3. v1.3.0: Time spent on the page (15%)
+    if (maxDuration > 0) {
+      score += ((bookmark.totalDuration ?? 0) / maxDuration) * 0.15;
+    }
+
+    // 4. Pinned bookmarks get boost
     if (bookmark.isPinned) {
       score += 0.1;
     }
@@ -211,12 +235,12 @@ export async function getRecentBookmarks(limit: number = 10): Promise<Bookmark[]
 }
 
 /**
- * Get bookmarks by category
+ * Get bookmarks by category, including its sub-categories
  */
 export async function getBookmarksByCategory(categoryId: string): Promise<Bookmark[]> {
   return await db.bookmarks
     .where('category')
-    .equals(categoryId)
+    .anyOf(await getCategorySubtreeIds(categoryId))
     .filter(b => !b.isArchived)
     .toArray();
 }
@@ -250,6 +274,7 @@ export async function getBookmarkStats() {
       id: c.id,
       name: c.name,
       count: c.bookmarkCount,
+      archivedCount: c.archivedCount,
       icon: c.icon,
       color: c.color
     }))
@@ -1,28 +1,33 @@
 import { db } from './db';
 import { normalizeURL } from './categorization';
+import { extractDomain } from './domainMatching';
 
 /// <reference types="chrome"/>
 
 // Chrome tab group colors
 type TabGroupColor = 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan' | 'orange';
 
-// Category colors for tab groups (Chrome's limited palette)
-const CATEGORY_COLORS: Record<string, TabGroupColor> = {
-  development: 'blue',
-  shopping: 'green',
-  social: 'purple',
-  news: 'red',
-  entertainment: 'yellow',
-  work: 'cyan',
-  research: 'pink',
-  finance: 'orange',
-  health: 'red',
-  education: 'cyan',
-  uncategorized: 'grey'
-};
+// Chrome tab group palette approximated as RGB, for mapping category colors
+const TAB_GROUP_PALETTE: Array<{ color: TabGroupColor; rgb: [number, number, number] }> = [
+  { color: 'grey', rgb: [107, 114, 128] },
+  { color: 'blue', rgb: [59, 130, 246] },
+  { color: 'red', rgb: [239, 68, 68] },
+  { color: 'yellow', rgb: [234, 179, 8] },
+  { color: 'green', rgb: [16, 185, 129] },
+  { color: 'pink', rgb: [236, 72, 153] },
+  { color: 'purple', rgb: [139, 92, 246] },
+  { color: 'cyan', rgb: [6, 182, 212] },
+  { color: 'orange', rgb: [249, 115, 22] }
+];
+
+interface CategoryGroupStyle {
+  title: string;
+  color: TabGroupColor;
+}
 
-// Category display names with icons
-const CATEGORY_NAMES: Record<string, string> = {
+// Short titles tab groups of the built-in categories had before groups were
+// titled by category name; groups still carrying them are adopted and renamed
+const LEGACY_GROUP_TITLES: Record<string, string> = {
   development: 'Dev',
   shopping: 'Shop',
   social: 'Social',
@@ -36,22 +41,45 @@ const CATEGORY_NAMES: Record<string, string> = {
   uncategorized: 'Other'
 };
 
-interface TabGroupResult {
-  grouped: number;
-  ungrouped: number;
-  groups: Array<{ category: string; tabCount: number; groupId: number }>;
+/**
+ * Map a category's hex color to the closest Chrome tab group color
+ */
+function toTabGroupColor(hex?: string): TabGroupColor {
+  const match = hex?.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return 'grey';
+
+  const [r, g, b] = match.slice(1).map(part => parseInt(part, 16));
+  let best = TAB_GROUP_PALETTE[0];
+  let bestDistance = Infinity;
+
+  for (const entry of TAB_GROUP_PALETTE) {
+    const distance =
+      (r - entry.rgb[0]) ** 2 + (g - entry.rgb[1]) ** 2 + (b - entry.rgb[2]) ** 2;
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+
+  return best.color;
 }
 
 /**
- * Extract domain from URL for fallback matching
+ * Load tab group title and color for every category
+ * Reads the categories table so renamed, recolored and user-defined categories carry through
  */
-function extractDomain(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.replace(/^www\./, '').toLowerCase();
-  } catch {
-    return '';
-  }
+async function loadCategoryGroupStyles(): Promise<Map<string, CategoryGroupStyle>> {
+  const categories = await db.categories.toArray();
+  return new Map(categories.map(category => [
+    category.id,
+    { title: category.name, color: toTabGroupColor(category.color) }
+  ]));
+}
+
+export interface TabGroupResult {
+  grouped: number;
+  ungrouped: number;
+  groups: Array<{ category: string; tabCount: number; groupId: number }>;
 }
 
 /**
@@ -154,6 +182,7 @@ export async function groupTabsByCategory(): Promise<TabGroupResult> {
   };
 
   // Create tab groups for each category
+  const styles = await loadCategoryGroupStyles();
   for (const [category, tabsInCategory] of categoryTabs) {
     if (tabsInCategory.length === 0) continue;
 
@@ -168,8 +197,8 @@ export async function groupTabsByCategory(): Promise<TabGroupResult> {
       const groupId = await chrome.tabs.group({ tabIds: tabIds as [number, ...number[]] });
 
       // Style the group
-      const color = CATEGORY_COLORS[category] || 'grey';
-      const title = CATEGORY_NAMES[category] || category;
+      const color = styles.get(category)?.color || 'grey';
+      const title = styles.get(category)?.title || category;
 
       await chrome.tabGroups.update(groupId, {
         title,
@@ -289,13 +318,18 @@ export async function addTabToGroup(tabId: number, url: string): Promise<boolean
 
   // Find existing group for this category
   const groups = await chrome.tabGroups.query({ windowId: chrome.windows.WINDOW_ID_CURRENT });
-  const categoryTitle = CATEGORY_NAMES[category] || category;
+  const style = (await loadCategoryGroupStyles()).get(category);
+  const categoryTitle = style?.title || category;
 
-  const existingGroup = groups.find(g => g.title === categoryTitle);
+  const existingGroup = groups.find(g => g.title === categoryTitle) ??
+    groups.find(g => g.title === LEGACY_GROUP_TITLES[category]);
 
   if (existingGroup) {
     // Add to existing group
     await chrome.tabs.group({ tabIds: [tabId], groupId: existingGroup.id });
+    if (existingGroup.title !== categoryTitle) {
+      await chrome.tabGroups.update(existingGroup.id, { title: categoryTitle });
+    }
     return true;
   }
 
@@ -303,7 +337,7 @@ export async function addTabToGroup(tabId: number, url: string): Promise<boolean
   const groupId = await chrome.tabs.group({ tabIds: [tabId] });
   await chrome.tabGroups.update(groupId, {
     title: categoryTitle,
-    color: CATEGORY_COLORS[category] || 'grey'
+    color: style?.color || 'grey'
   });
 
   return true;
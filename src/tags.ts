@@ -0,0 +1,114 @@
+import { db, type Bookmark } from './db';
+import { logActivity, USER_ACTION, type ActivityOrigin } from './activityLog';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Normalize a tag: lowercase, trimmed, inner whitespace collapsed to dashes
+ */
+export function normalizeTag(tag: string): string {
+  return tag.toLowerCase().trim().replace(/^#/, '').replace(/\s+/g, '-');
+}
+
+/**
+ * Normalize a tag list: no empties or duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(tag => tag.length > 0))];
+}
+
+/**
+ * Get every tag in use with the number of bookmarks carrying it, most used first
+ */
+export async function getAllTags(): Promise<TagCount[]> {
+  const counts = new Map<string, number>();
+
+  // Walk the multi-entry index, so only tagged bookmarks are visited
+  await db.bookmarks.orderBy('tags').eachKey(tag => {
+    const key = String(tag);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Get bookmarks carrying a tag
+ */
+export async function getBookmarksByTag(tag: string): Promise<Bookmark[]> {
+  return await db.bookmarks
+    .where('tags')
+    .equals(normalizeTag(tag))
+    .toArray();
+}
+
+/**
+ * Change the tags of several bookmarks, logging each bookmark that changed
+ * Returns the number of bookmarks updated
+ */
+async function changeTags(
+  bookmarkIds: string[],
+  change: (tags: string[]) => string[],
+  origin: ActivityOrigin
+): Promise<number> {
+  return await db.transaction('rw', db.bookmarks, db.activityLog, async () => {
+    let updated = 0;
+    for (const bookmark of await db.bookmarks.bulkGet(bookmarkIds)) {
+      if (!bookmark) continue;
+
+      const tags = change(bookmark.tags ?? []);
+      if (tags.join('\u0000') === (bookmark.tags ?? []).join('\u0000')) continue;
+
+      await db.bookmarks.update(bookmark.id, { tags });
+      await logActivity('update', bookmark, { ...bookmark, tags }, origin);
+      updated++;
+    }
+    return updated;
+  });
+}
+
+/**
+ * Replace the tags of a single bookmark
+ */
+export async function setBookmarkTags(
+  bookmarkId: string,
+  tags: string[],
+  origin: ActivityOrigin = USER_ACTION
+): Promise<void> {
+  await changeTags([bookmarkId], () => normalizeTags(tags), origin);
+}
+
+/**
+ * Add tags to several bookmarks at once
+ * Returns the number of bookmarks updated
+ */
+export async function addTagsToBookmarks(
+  bookmarkIds: string[],
+  tags: string[],
+  origin: ActivityOrigin = USER_ACTION
+): Promise<number> {
+  const toAdd = normalizeTags(tags);
+  if (toAdd.length === 0) return 0;
+
+  return await changeTags(bookmarkIds, current => normalizeTags([...current, ...toAdd]), origin);
+}
+
+/**
+ * Remove tags from several bookmarks at once
+ * Returns the number of bookmarks updated
+ */
+export async function removeTagsFromBookmarks(
+  bookmarkIds: string[],
+  tags: string[],
+  origin: ActivityOrigin = USER_ACTION
+): Promise<number> {
+  const toRemove = new Set(normalizeTags(tags));
+  if (toRemove.size === 0) return 0;
+
+  return await changeTags(bookmarkIds, current => current.filter(tag => !toRemove.has(tag)), origin);
+}
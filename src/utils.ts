@@ -1,3 +1,5 @@
+import { sendRequest } from './rpc';
+
 /// <reference types="chrome"/>
 
 /**
@@ -25,6 +27,15 @@ export async function flattenBookmarkTree(): Promise<chrome.bookmarks.BookmarkTr
   return bookmarks;
 }
 
+/**
+ * Ids of the bookmarks in a bookmark tree node: the node itself, or everything
+ * below it when it is a folder
+ */
+export function bookmarkIdsIn(node: chrome.bookmarks.BookmarkTreeNode): string[] {
+  if (node.url) return [node.id];
+  return (node.children ?? []).flatMap(bookmarkIdsIn);
+}
+
 /**
  * Check if a specific permission is granted
  */
@@ -61,6 +72,36 @@ export async function removePermission(permission: string): Promise<boolean> {
   });
 }
 
+// v1.3.0: Optional access to every site, needed to fetch pages from the service worker
+const ALL_SITES = '<all_urls>';
+
+/**
+ * Check if access to all sites is granted
+ */
+export async function hasHostAccess(): Promise<boolean> {
+  return await chrome.permissions.contains({ origins: [ALL_SITES] });
+}
+
+/**
+ * Request access to all sites from the user (must be called from a user gesture)
+ */
+export async function requestHostAccess(): Promise<boolean> {
+  return await chrome.permissions.request({ origins: [ALL_SITES] });
+}
+
+/**
+ * Whether a URL is a web page that can be fetched (http or https)
+ * Bookmarklets, chrome:// pages, local files and data URLs can't be
+ */
+export function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Track a bookmark click from the extension popup
  * This is used as fallback when history permission is not granted
@@ -68,9 +109,8 @@ export async function removePermission(permission: string): Promise<boolean> {
  */
 export async function trackBookmarkClick(bookmarkId: string) {
   // Send message to background script to track the visit
-  chrome.runtime.sendMessage({
-    type: 'TRACK_BOOKMARK_CLICK',
-    bookmarkId
+  sendRequest('TRACK_BOOKMARK_CLICK', { bookmarkId }).catch(error => {
+    console.debug('Failed to track bookmark click:', error);
   });
 }
 
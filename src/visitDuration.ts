@@ -0,0 +1,246 @@
+import { db, type Bookmark, type CandidateUrl } from './db';
+import { normalizeURL } from './categorization';
+
+/// <reference types="chrome"/>
+
+// Visits shorter than this are bounces: they don't count as engaged visits
+export const BOUNCE_MS = 10 * 1000;
+
+const STATE_KEY = 'smartmarks_tab_visits';
+const LOCK_NAME = 'smartmarks-dwell';
+const IDLE_DETECTION_SECONDS = 120;
+// A visit record is matched to a page load when it was written this close to it
+const VISIT_MATCH_WINDOW_MS = 60 * 1000;
+
+// A page open in a tab; activeSince is set while the user is looking at it
+interface TabVisit {
+  url: string;
+  loadedAt: number;
+  dwell: number;
+  activeSince?: number;
+}
+
+type TabVisits = Record<string, TabVisit>;
+
+/**
+ * Visits that weren't bounces
+ */
+export function engagedVisitCount(item: Pick<Bookmark | CandidateUrl, 'visitCount' | 'bounceCount'>): number {
+  return Math.max(0, item.visitCount - (item.bounceCount ?? 0));
+}
+
+/**
+ * When a bookmark was last really used
+ * Falls back to the last visit for bookmarks visited before dwell tracking
+ */
+export function lastEngagedAt(bookmark: Bookmark): number | undefined {
+  return bookmark.lastEngagedAt ?? bookmark.lastVisited;
+}
+
+function isTrackable(url: string | undefined): url is string {
+  return !!url && /^https?:/.test(url);
+}
+
+// Tab state lives in session storage, so it survives the service worker being suspended
+async function loadState(): Promise<TabVisits> {
+  const result = await chrome.storage.session.get(STATE_KEY);
+  return (result[STATE_KEY] as TabVisits | undefined) ?? {};
+}
+
+async function saveState(state: TabVisits): Promise<void> {
+  await chrome.storage.session.set({ [STATE_KEY]: state });
+}
+
+/**
+ * Run a state change under a lock; tab, window and idle events arrive concurrently
+ */
+async function withState(update: (state: TabVisits) => Promise<void>): Promise<void> {
+  await navigator.locks.request(LOCK_NAME, async () => {
+    const state = await loadState();
+    await update(state);
+    await saveState(state);
+  });
+}
+
+/**
+ * Find the visit record written for a page load (by trackVisit or the popup)
+ */
+async function findVisitRecord(bookmarkId: string, loadedAt: number) {
+  return db.visitHistory
+    .where('bookmarkId')
+    .equals(bookmarkId)
+    .filter(visit => visit.timestamp >= loadedAt - VISIT_MATCH_WINDOW_MS)
+    .last();
+}
+
+/**
+ * Add time spent on a page to its bookmark and visit record, or to its candidate
+ */
+async function recordDwell(visit: TabVisit, elapsed: number): Promise<void> {
+  const bookmark = await db.bookmarks.where('url').equals(visit.url).first();
+  if (bookmark) {
+    const record = await findVisitRecord(bookmark.id, visit.loadedAt);
+    if (record) {
+      await db.visitHistory.update(record.id!, { duration: record.duration + elapsed });
+    }
+    await db.bookmarks.update(bookmark.id, {
+      totalDuration: (bookmark.totalDuration ?? 0) + elapsed,
+      // Only a visit that is no longer a bounce counts as using the bookmark
+      lastEngagedAt: visit.dwell >= BOUNCE_MS ? Date.now() : bookmark.lastEngagedAt
+    });
+    return;
+  }
+
+  const candidate = await db.candidateUrls.where('normalizedUrl').equals(normalizeURL(visit.url)).first();
+  if (candidate?.status === 'tracking') {
+    await db.candidateUrls.update(candidate.id!, {
+      totalDuration: (candidate.totalDuration ?? 0) + elapsed
+    });
+  }
+}
+
+/**
+ * Count a finished visit as a bounce if it was too short
+ * Only visits that were counted in the first place (see trackVisit) are marked
+ */
+async function recordBounce(visit: TabVisit): Promise<void> {
+  const bookmark = await db.bookmarks.where('url').equals(visit.url).first();
+  if (bookmark) {
+    if (await findVisitRecord(bookmark.id, visit.loadedAt)) {
+      await db.bookmarks.update(bookmark.id, { bounceCount: (bookmark.bounceCount ?? 0) + 1 });
+    }
+    return;
+  }
+
+  const candidate = await db.candidateUrls.where('normalizedUrl').equals(normalizeURL(visit.url)).first();
+  if (candidate?.status === 'tracking' && candidate.lastSeen >= visit.loadedAt - VISIT_MATCH_WINDOW_MS) {
+    await db.candidateUrls.update(candidate.id!, { bounceCount: (candidate.bounceCount ?? 0) + 1 });
+  }
+}
+
+/**
+ * Stop the clock on whichever tab is being looked at
+ */
+async function pause(state: TabVisits): Promise<void> {
+  const now = Date.now();
+  for (const visit of Object.values(state)) {
+    if (visit.activeSince === undefined) continue;
+
+    const elapsed = Math.max(0, now - visit.activeSince);
+    visit.dwell += elapsed;
+    delete visit.activeSince;
+    if (elapsed > 0) {
+      await recordDwell(visit, elapsed);
+    }
+  }
+}
+
+async function endVisit(state: TabVisits, tabId: number): Promise<void> {
+  const visit = state[tabId];
+  if (!visit) return;
+
+  await pause({ [tabId]: visit });
+  delete state[tabId];
+  if (visit.dwell < BOUNCE_MS) {
+    await recordBounce(visit);
+  }
+}
+
+/**
+ * Start the clock on a tab; tabs opened before tracking started get a visit now
+ */
+async function resume(state: TabVisits, tab: chrome.tabs.Tab | undefined): Promise<void> {
+  await pause(state);
+  if (tab?.id === undefined || !isTrackable(tab.url)) return;
+
+  const visit = state[tab.id];
+  if (visit && visit.url === tab.url) {
+    visit.activeSince = Date.now();
+  } else {
+    await endVisit(state, tab.id);
+    state[tab.id] = { url: tab.url, loadedAt: Date.now(), dwell: 0, activeSince: Date.now() };
+  }
+}
+
+/**
+ * The tab the user is looking at, if any: the active tab of the focused window
+ */
+async function getViewedTab(): Promise<chrome.tabs.Tab | undefined> {
+  if (await chrome.idle.queryState(IDLE_DETECTION_SECONDS) !== 'active') return undefined;
+
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  if (!tab) return undefined;
+
+  try {
+    const { focused } = await chrome.windows.get(tab.windowId);
+    return focused ? tab : undefined;
+  } catch {
+    // The window closed in the meantime
+    return undefined;
+  }
+}
+
+/**
+ * Whether a tab's new URL only moved within the page (a fragment change)
+ * Single-page apps changing the path start a new visit like any navigation
+ */
+function isSameDocument(visit: TabVisit | undefined, url: string): boolean {
+  if (!visit) return false;
+  return visit.url.split('#')[0] === url.split('#')[0];
+}
+
+/**
+ * Measure how long each page is actually looked at
+ * The clock runs only for the active tab of the focused window while the user
+ * isn't idle; time is added to the visit record and the bookmark (or candidate)
+ * as it is measured. Listeners must be registered at the top level of the worker.
+ */
+export function registerDwellTracking(): void {
+  chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+
+  chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
+    if (!changeInfo.url) return;
+
+    // Navigating ends the visit to the previous page
+    await withState(async state => {
+      if (isSameDocument(state[tabId], changeInfo.url!)) return;
+
+      await endVisit(state, tabId);
+      if (!isTrackable(changeInfo.url)) return;
+
+      state[tabId] = { url: changeInfo.url!, loadedAt: Date.now(), dwell: 0 };
+      if ((await getViewedTab())?.id === tabId) {
+        await resume(state, tab);
+      }
+    });
+  });
+
+  chrome.tabs.onActivated.addListener(async ({ tabId }) => {
+    await withState(async state => {
+      const viewed = await getViewedTab();
+      if (viewed?.id === tabId) {
+        await resume(state, viewed);
+      } else {
+        await pause(state);
+      }
+    });
+  });
+
+  chrome.tabs.onRemoved.addListener(async (tabId) => {
+    await withState(state => endVisit(state, tabId));
+  });
+
+  chrome.windows.onFocusChanged.addListener(async () => {
+    await withState(async state => resume(state, await getViewedTab()));
+  });
+
+  chrome.idle.onStateChanged.addListener(async (idleState) => {
+    await withState(async state => {
+      if (idleState === 'active') {
+        await resume(state, await getViewedTab());
+      } else {
+        await pause(state);
+      }
+    });
+  });
+}